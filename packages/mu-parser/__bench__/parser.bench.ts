@@ -0,0 +1,59 @@
+import { bench, describe } from "vitest";
+
+import { runParser, combine, Parser } from "../src/parser";
+import { parseField, parseList, parseLit, parseNum } from "../src/parsers";
+import * as throwing from "./throwing-engine";
+
+const kinds = ["a", "b", "c", "d", "e", "f", "g", "h"] as const;
+
+const input = Array.from({ length: 1000 }, (_, idx) => ({
+  kind: kinds[idx % kinds.length],
+  value: idx,
+}));
+
+interface Item {
+  kind: string;
+  value: number;
+}
+
+const resultUnion = kinds
+  .map(
+    (kind): Parser<Item, void> =>
+      combine((bind) => ({
+        kind: bind(parseField("kind", parseLit(kind))),
+        value: bind(parseField("value", parseNum)),
+      })),
+  )
+  .reduce((acc, next) => acc.orElse(next));
+
+const throwingUnion = kinds
+  .map(
+    (kind): throwing.Parser<Item> =>
+      throwing.combine((bind) => ({
+        kind: bind(throwing.parseField("kind", throwing.parseLit(kind))),
+        value: bind(throwing.parseField("value", throwing.parseNum)),
+      })),
+  )
+  .reduce((acc, next) => acc.orElse(next));
+
+describe("orElse union of 8 alternatives over 1000 items", () => {
+  bench("result-based engine", () => {
+    runParser(parseList(resultUnion), { input });
+  });
+
+  bench("throwing engine", () => {
+    throwing.runParser(throwing.parseList(throwingUnion), input);
+  });
+});
+
+describe("parseList of 1000 numbers", () => {
+  const numbers = input.map(({ value }) => value);
+
+  bench("result-based engine", () => {
+    runParser(parseList(parseNum), { input: numbers });
+  });
+
+  bench("throwing engine", () => {
+    throwing.runParser(throwing.parseList(throwing.parseNum), numbers);
+  });
+});
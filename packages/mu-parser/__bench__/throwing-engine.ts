@@ -0,0 +1,127 @@
+/**
+ * The previous execution engine, kept as a baseline for benchmarks:
+ * failures are thrown as `ParserError` and alternatives are tried
+ * inside try/catch.
+ */
+import { ParserError } from "../src/parser-error";
+import { ParserState } from "../src/parser-state";
+import { attempt } from "../src/utils";
+import { err, ok, ParserResult } from "./throwing-result";
+
+export interface Parser<T> {
+  run(ctx: ParserState<void>): ParserResult<T>;
+  map<R>(f: (t: T) => R): Parser<R>;
+  andThen<R>(f: (a: T) => Parser<R>): Parser<R>;
+  recover<R>(fn: (err: ParserError) => Parser<R>): Parser<T | R>;
+  orElse<R>(other: Parser<R>): Parser<T | R>;
+  readonly optional: Parser<undefined | T>;
+}
+
+// built the way `src/parser.ts` builds parsers, so that creating
+// one costs the same in both engines
+export const parser = <T>(
+  run: (st: ParserState<void>) => ParserResult<T>,
+): Parser<T> => {
+  const self: Parser<T> = {
+    run,
+    map: (f) =>
+      parser((ctx) => {
+        const [res, newCtx] = run(ctx);
+        return ok(f(res), newCtx);
+      }),
+    andThen: <R>(f: (a: T) => Parser<R>) =>
+      parser((st) => {
+        const [a, newSt] = run(st);
+        return f(a).run(newSt);
+      }),
+    recover: <R>(fn: (err: ParserError) => Parser<R>): Parser<T | R> =>
+      parser((st) =>
+        attempt<ParserResult<T | R>>(
+          () => run(st),
+          (e) => {
+            if (e instanceof ParserError) {
+              return fn(e).run(st);
+            }
+            throw e;
+          },
+        ),
+      ),
+    orElse: <R>(other: Parser<R>) => self.recover(() => other),
+    get optional() {
+      return self.orElse(parser((st) => ok(undefined, st)));
+    },
+  };
+
+  return self;
+};
+
+export const combine = <T>(
+  parsers: (bind: <R>(parser: Parser<R>) => R) => T,
+): Parser<T> =>
+  parser((state) =>
+    ok(
+      parsers((parser) => {
+        const [res, nextState] = parser.run(state);
+        state = nextState;
+        return res;
+      }),
+      state,
+    ),
+  );
+
+export const runParser = <T>(parser: Parser<T>, input: unknown): T =>
+  parser.run(ParserState.empty(input, undefined))[0];
+
+export const parseLit = <Val extends string | number | null | undefined>(
+  value: Val,
+) =>
+  parser((ctx) =>
+    ctx.input === value
+      ? ok(value, ctx)
+      : err(`expected value "${value}"`, ctx),
+  );
+
+export const parseNum = parser((ctx) =>
+  typeof ctx.input === "number"
+    ? ok(ctx.input, ctx)
+    : err("number expected", ctx),
+);
+
+const parseObj = parser((ctx) =>
+  typeof ctx.input === "object" && ctx.input !== null
+    ? ok(ctx.input as Record<string | number | symbol, unknown>, ctx)
+    : err("object expected", ctx),
+);
+
+export const parseField = <T>(
+  name: string | number | symbol,
+  fieldParser: Parser<T>,
+): Parser<T> =>
+  combine((bind) => {
+    const record = bind(parseObj);
+    return bind(
+      parser((ctx) => {
+        if (name in record) {
+          const nextTarget = record[name];
+          if (ctx.visited.has(nextTarget)) {
+            return err("circular reference detected", ctx);
+          }
+          const [result] = fieldParser.run(ctx.visiting(name, nextTarget));
+          return ok(result, ctx);
+        }
+        return err(`property '${String(name)}' expected`, ctx);
+      }),
+    );
+  });
+
+export const parseList = <T>(itemParser: Parser<T>): Parser<T[]> =>
+  parser((ctx) => {
+    const target = ctx.input;
+    if (target instanceof Array) {
+      return ok(
+        target.map((item, idx) => itemParser.run(ctx.visiting(idx, item))[0]),
+        ctx,
+      );
+    }
+    return err("array expected", ctx);
+  });
@@ -0,0 +1,15 @@
+/**
+ * Results of the throwing engine, in a module of their own
+ * as they were in `src/parser-result.ts`.
+ */
+import { ParserError } from "../src/parser-error";
+import { ParserState } from "../src/parser-state";
+
+export type ParserResult<T> = readonly [T, ParserState<void>];
+
+export const ok = <T>(val: T, state: ParserState<void>): ParserResult<T> =>
+  [val, state] as const;
+
+export const err = (reason: string, state: ParserState<void>): never => {
+  throw new ParserError(reason, state.path);
+};
@@ -0,0 +1,194 @@
+import { test, expect, describe } from "vitest";
+
+import {
+  asyncParser,
+  combineAsync,
+  liftAsync,
+  runParserAsync,
+} from "../src/async-parser";
+import { fail, success, updateState } from "../src/parser";
+import {
+  parseField,
+  parseFieldAsync,
+  parseListAsync,
+  parseNum,
+  parseStr,
+  withDefault,
+} from "../src/parsers";
+import { err, ok } from "../src/parser-result";
+import { ValidationError } from "../src/parser-error";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+const takenNames = new Set(["admin", "root"]);
+
+const parseFreeName = liftAsync(parseStr).andThen((name) =>
+  asyncParser(async (ctx) => {
+    await tick();
+    return takenNames.has(name)
+      ? err("username taken", ctx, { code: "username_taken" })
+      : ok(name, ctx);
+  }),
+);
+
+describe("async parsers", () => {
+  test("lift and chain", async () => {
+    expect(await runParserAsync(parseFreeName, { input: "alice" })).toBe(
+      "alice",
+    );
+    await expect(
+      runParserAsync(parseFreeName, { input: "root" }),
+    ).rejects.toThrow(ValidationError);
+    expect(
+      await runParserAsync(parseFreeName, { input: 1 }, (error) => error.code),
+    ).toBe("invalid_type");
+  });
+
+  test("map, recover, orElse and optional", async () => {
+    const length = parseFreeName.map(async (name) => {
+      await tick();
+      return name.length;
+    });
+    expect(await runParserAsync(length, { input: "alice" })).toBe(5);
+
+    const fallback = parseFreeName.recover((error) =>
+      success(`${error.reason}!`),
+    );
+    expect(await runParserAsync(fallback, { input: "admin" })).toBe(
+      "username taken!",
+    );
+
+    expect(
+      await runParserAsync(parseFreeName.orElse(parseNum), { input: 1 }),
+    ).toBe(1);
+    expect(
+      await runParserAsync(parseFreeName.optional, { input: "root" }),
+    ).toBe(undefined);
+  });
+
+  test("fields report their path", async () => {
+    const parser = parseFieldAsync(
+      "user",
+      parseFieldAsync("name", parseFreeName),
+    );
+
+    expect(
+      await runParserAsync(
+        parser,
+        { input: { user: { name: "admin" } } },
+        (error) => error.path,
+      ),
+    ).toEqual(["user", "name"]);
+    expect(
+      await runParserAsync(
+        parser,
+        { input: { user: {} } },
+        (error) => error.code,
+      ),
+    ).toBe("missing_property");
+    expect(
+      await runParserAsync(parseFieldAsync("page", withDefault(parseNum, 1)), {
+        input: {},
+      }),
+    ).toBe(1);
+    expect(
+      await runParserAsync(
+        parseFieldAsync("page", liftAsync(withDefault(parseNum, 1))),
+        { input: {} },
+      ),
+    ).toBe(1);
+  });
+
+  test("combineAsync", async () => {
+    const parseUser = combineAsync(async (bind) => ({
+      name: await bind(parseFieldAsync("name", parseFreeName)),
+      age: await bind(parseField("age", parseNum)),
+    }));
+
+    expect(
+      await runParserAsync(parseUser, { input: { name: "bob", age: 3 } }),
+    ).toEqual({ name: "bob", age: 3 });
+    expect(
+      await runParserAsync(
+        parseUser,
+        { input: { name: "root", age: "3" }, collectErrors: true },
+        (error) => error.errors.map(({ code }) => code),
+      ),
+    ).toEqual(["username_taken", "invalid_type"]);
+  });
+
+  test("combineAsync threads state", async () => {
+    const count = updateState((n: number) => n + 1);
+    const parser = combineAsync<number, number>(async (bind) => {
+      await bind(count);
+      await bind(liftAsync(count));
+      return bind(count);
+    });
+
+    expect(await runParserAsync(parser, { input: null, initialState: 0 })).toBe(
+      3,
+    );
+  });
+});
+
+describe("async lists", () => {
+  test("sequential", async () => {
+    expect(
+      await runParserAsync(parseListAsync(parseFreeName), {
+        input: ["a", "b"],
+      }),
+    ).toEqual(["a", "b"]);
+    expect(
+      await runParserAsync(
+        parseListAsync(parseFreeName),
+        { input: ["a", "root", 1] },
+        (error) => error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([[1]]);
+  });
+
+  test("concurrent", async () => {
+    let running = 0;
+    let peak = 0;
+    const parseSlow = liftAsync(parseNum).andThen((n) =>
+      asyncParser(async (ctx) => {
+        running++;
+        peak = Math.max(peak, running);
+        await tick();
+        running--;
+        return n < 0 ? err("negative", ctx) : ok(n * 2, ctx);
+      }),
+    );
+    const parser = parseListAsync(parseSlow, { concurrency: 2 });
+
+    expect(await runParserAsync(parser, { input: [1, 2, 3, 4, 5] })).toEqual([
+      2, 4, 6, 8, 10,
+    ]);
+    expect(peak).toBe(2);
+    expect(
+      await runParserAsync(
+        parser,
+        { input: [1, -1, 2, -2, 3], collectErrors: true },
+        (error) => error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([[1], [3]]);
+    expect(
+      await runParserAsync(
+        parser,
+        { input: [1, -1, -2] },
+        (error) => error.path,
+      ),
+    ).toEqual([1]);
+    expect(
+      await runParserAsync(parser, { input: "x" }, (error) => error.code),
+    ).toBe("invalid_type");
+  });
+
+  test("sync failures inside async chains", async () => {
+    expect(
+      await runParserAsync(liftAsync(fail<void>("nope")).orElse(success(1)), {
+        input: null,
+      }),
+    ).toBe(1);
+  });
+});
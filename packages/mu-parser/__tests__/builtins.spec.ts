@@ -0,0 +1,144 @@
+import { test, expect, describe } from "vitest";
+
+import { lazy, Parser, runParser } from "../src/parser";
+import {
+  parseBigInt,
+  parseBoolean,
+  parseDate,
+  parseField,
+  parseInstanceOf,
+  parseMap,
+  parseNum,
+  parseSet,
+  parseStr,
+  parseSymbol,
+} from "../src/parsers";
+import { toJsonSchema } from "../src/json-schema";
+import { checkAll } from "./helpers";
+
+describe("primitive built-ins", () => {
+  test("boolean, bigint and symbol", () => {
+    const sym = Symbol("id");
+
+    expect(checkAll(parseBoolean, false)).toBe(false);
+    expect(checkAll(parseBigInt, 1n)).toBe(1n);
+    expect(checkAll(parseSymbol, sym)).toBe(sym);
+    expect(checkAll(parseBoolean, "true")).toEqual([
+      { code: "invalid_type", path: [] },
+    ]);
+    expect(checkAll(parseBigInt, 1)).toEqual([
+      { code: "invalid_type", path: [] },
+    ]);
+    expect(checkAll(parseSymbol, "id")).toEqual([
+      { code: "invalid_type", path: [] },
+    ]);
+  });
+
+  test("date", () => {
+    const now = new Date();
+
+    expect(checkAll(parseDate, now)).toBe(now);
+    expect(checkAll(parseDate, new Date("nope"))).toEqual([
+      { code: "invalid_date_value", path: [] },
+    ]);
+    expect(checkAll(parseDate, "2024-01-01")).toEqual([
+      { code: "invalid_type", path: [] },
+    ]);
+  });
+
+  test("instanceOf", () => {
+    class Point {
+      constructor(readonly x: number) {}
+    }
+    const point = new Point(1);
+
+    expect(checkAll(parseInstanceOf(Point), point)).toBe(point);
+    expect(
+      runParser(parseInstanceOf(Point), { input: { x: 1 } }, (error) => error),
+    ).toMatchObject({
+      reason: "instance of Point expected",
+      code: "invalid_instance",
+      expected: "Point",
+      received: "Object",
+    });
+  });
+});
+
+describe("collections", () => {
+  test("map", () => {
+    const parser = parseMap(parseStr, parseNum);
+    const input = new Map([
+      ["a", 1],
+      ["b", 2],
+    ]);
+    const result = checkAll(parser, input);
+
+    expect(result).toEqual(input);
+    expect(result).not.toBe(input);
+    expect(checkAll(parser, { a: 1 })).toEqual([
+      { code: "invalid_type", path: [] },
+    ]);
+    expect(
+      checkAll(
+        parser,
+        new Map<unknown, unknown>([
+          ["a", "1"],
+          ["b", 2],
+          [{}, 3],
+        ]),
+      ),
+    ).toEqual([
+      { code: "invalid_type", path: ["a"] },
+      { code: "invalid_type", path: [2] },
+    ]);
+  });
+
+  test("set", () => {
+    const parser = parseSet(parseNum);
+
+    expect(checkAll(parser, new Set([1, 2]))).toEqual(new Set([1, 2]));
+    expect(checkAll(parser, [1])).toEqual([{ code: "invalid_type", path: [] }]);
+    expect(checkAll(parser, new Set([1, "2", 3, "4"]))).toEqual([
+      { code: "invalid_type", path: [1] },
+      { code: "invalid_type", path: [3] },
+    ]);
+  });
+
+  test("nested error paths", () => {
+    const parser = parseField("groups", parseMap(parseStr, parseSet(parseStr)));
+
+    expect(
+      checkAll(parser, { groups: new Map([["admins", new Set(["a", 1])]]) }),
+    ).toEqual([{ code: "invalid_type", path: ["groups", "admins", 1] }]);
+  });
+
+  test("circular references", () => {
+    type Nested = Set<Nested>;
+    const parseNested: Parser<Nested, any> = lazy(() => parseSet(parseNested));
+    const set: Nested = new Set();
+    set.add(new Set([set]));
+
+    expect(checkAll(parseNested, set)).toEqual([
+      { code: "circular_reference", path: [0, 0] },
+    ]);
+
+    type Graph = Map<string, Graph>;
+    const parseGraph: Parser<Graph, any> = lazy(() =>
+      parseMap(parseStr, parseGraph),
+    );
+    const graph: Graph = new Map();
+    graph.set("self", graph);
+
+    expect(checkAll(parseGraph, graph)).toEqual([
+      { code: "circular_reference", path: ["self"] },
+    ]);
+  });
+
+  test("json schema", () => {
+    expect(toJsonSchema(parseBoolean)).toMatchObject({ type: "boolean" });
+    expect(toJsonSchema(parseMap(parseStr, parseNum))).toMatchObject({
+      not: {},
+      $comment: "mapOf has no JSON representation",
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { test, expect, describe, expectTypeOf } from "vitest";
+
+import { codec, Codec, identityCodec, mapCodec } from "../src/codec";
+import { parser, runParser } from "../src/parser";
+import { err, ok } from "../src/parser-result";
+import {
+  dateCodec,
+  listCodec,
+  oneOfCodec,
+  optional,
+  optionalCodec,
+  parseField,
+  parseLit,
+  parseNum,
+  parseStr,
+  shapeCodec,
+  taggedUnionCodec,
+} from "../src/parsers";
+import { toJsonSchema } from "../src/json-schema";
+
+const str = identityCodec(parseStr);
+const num = identityCodec(parseNum);
+
+describe("codecs", () => {
+  test("primitive codecs", () => {
+    const cents = codec(
+      parseNum.map((n) => n / 100),
+      (n: number) => n * 100,
+    );
+
+    expect(runParser(cents, { input: 250 })).toBe(2.5);
+    expect(cents.encode(2.5)).toBe(250);
+    expect(runParser(dateCodec, { input: "2024-02-29T10:20:30.000Z" })).toEqual(
+      new Date(Date.UTC(2024, 1, 29, 10, 20, 30)),
+    );
+    expect(dateCodec.encode(new Date(Date.UTC(2024, 1, 29)))).toBe(
+      "2024-02-29T00:00:00.000Z",
+    );
+    expect(
+      runParser(dateCodec, { input: "yesterday" }, (error) => error.code),
+    ).toBe("invalid_datetime");
+  });
+
+  test("shapes and lists", () => {
+    const event = shapeCodec({
+      title: str,
+      at: dateCodec,
+      tags: listCodec(str),
+      until: optional(dateCodec),
+    });
+    const json = {
+      title: "launch",
+      at: "2024-01-01T00:00:00.000Z",
+      tags: ["a"],
+      extra: true,
+    };
+
+    const decoded = runParser(event, { input: json });
+    expect(decoded).toEqual({
+      title: "launch",
+      at: new Date("2024-01-01T00:00:00.000Z"),
+      tags: ["a"],
+    });
+    expect("until" in decoded).toBe(false);
+    expect(event.encode(decoded)).toEqual({
+      title: "launch",
+      at: "2024-01-01T00:00:00.000Z",
+      tags: ["a"],
+    });
+    expect(event.encode({ ...decoded, until: new Date(0) }).until).toBe(
+      "1970-01-01T00:00:00.000Z",
+    );
+
+    expectTypeOf(decoded.until).toEqualTypeOf<Date | undefined>();
+    expectTypeOf(event.encode(decoded).at).toEqualTypeOf<string>();
+    expectTypeOf(event.encode(decoded).until).toEqualTypeOf<
+      string | undefined
+    >();
+  });
+
+  test("optional values", () => {
+    const dates = listCodec(optionalCodec(dateCodec));
+
+    expect(runParser(dates, { input: [undefined] })).toEqual([undefined]);
+    expect(
+      runParser(dates, { input: [null, 42], collectErrors: true }, (error) =>
+        error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([[0], [1]]);
+    expect(
+      runParser(parseField("d", optionalCodec(dateCodec)), { input: {} }),
+    ).toBeUndefined();
+    expect(dates.encode([new Date(0), undefined])).toEqual([
+      "1970-01-01T00:00:00.000Z",
+      undefined,
+    ]);
+  });
+
+  test("passthrough keeps unknown keys", () => {
+    const item = shapeCodec({ at: dateCodec }, { unknownKeys: "passthrough" });
+    const json = { at: "2024-01-01T00:00:00.000Z", id: 1 };
+
+    expect(item.encode(runParser(item, { input: json }))).toEqual(json);
+  });
+
+  test("unions", () => {
+    const when = oneOfCodec(dateCodec, num);
+
+    expect(runParser(when, { input: 5 })).toBe(5);
+    expect(when.encode(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+    expect(when.encode(5)).toBe(5);
+
+    const shape = taggedUnionCodec("kind", {
+      point: shapeCodec({
+        kind: identityCodec(parseLit("point")),
+        at: dateCodec,
+      }),
+      size: shapeCodec({ kind: identityCodec(parseLit("size")), px: num }),
+    });
+    const json = { kind: "point", at: "2024-01-01T00:00:00.000Z" };
+
+    expect(shape.encode(runParser(shape, { input: json }))).toEqual(json);
+    expect(shape.encode({ kind: "size", px: 2 })).toEqual({
+      kind: "size",
+      px: 2,
+    });
+    expect(() =>
+      shape.encode({ kind: "toString" } as unknown as { kind: "size"; px: 1 }),
+    ).toThrow("unknown tag 'toString'");
+  });
+
+  test("oneOfCodec rethrows what is not a type mismatch", () => {
+    const when = oneOfCodec(dateCodec, num);
+
+    expect(() => when.encode(new Date(NaN))).toThrow(RangeError);
+  });
+
+  test("oneOfCodec decodes with the given state", () => {
+    const limited = codec(
+      parser<number, number>((ctx) =>
+        typeof ctx.input === "number" && ctx.input <= ctx.state
+          ? ok(ctx.input, ctx)
+          : err("too large", ctx),
+      ),
+      (value: number) => value,
+    );
+    const either = oneOfCodec(limited, mapCodec(str, Number, String));
+
+    expect(either.encode(5, 10)).toBe(5);
+    expect(either.encode(50, 10)).toBe("50");
+  });
+
+  test("shapeCodec keeps __proto__ an own key", () => {
+    const encoded = shapeCodec({
+      ["__proto__"]: num,
+    }).encode(JSON.parse('{ "__proto__": 1 }'));
+
+    expect(Object.hasOwn(encoded, "__proto__")).toBe(true);
+  });
+
+  test("mapCodec and schema", () => {
+    const epoch: Codec<Date, number> = mapCodec(
+      num,
+      (ms) => new Date(ms),
+      (date) => date.getTime(),
+    );
+
+    expect(epoch.encode(runParser(epoch, { input: 1000 }))).toBe(1000);
+    expect(toJsonSchema(listCodec(str))).toMatchObject({
+      type: "array",
+      items: { type: "string" },
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { test, expect, describe } from "vitest";
+
+import { identityCodec } from "../src/codec";
+import { readEnv } from "../src/env";
+import { toJsonSchema } from "../src/json-schema";
+import { input, lazy, runParser, success } from "../src/parser";
+import {
+  dateCodec,
+  integer,
+  min,
+  nullable,
+  nullish,
+  parseField,
+  parseList,
+  parseNum,
+  parseShape,
+  parseStr,
+  shapeCodec,
+  transform,
+  withDefault,
+} from "../src/parsers";
+
+const $schema = "https://json-schema.org/draft/2020-12/schema";
+
+describe("withDefault", () => {
+  const settings = parseShape({
+    page: withDefault(parseNum, 1),
+    tags: withDefault(parseList(parseStr), () => []),
+  });
+
+  test("fills in missing and undefined values only", () => {
+    expect(runParser(settings, { input: {} })).toEqual({ page: 1, tags: [] });
+    expect(runParser(settings, { input: { page: undefined } })).toEqual({
+      page: 1,
+      tags: [],
+    });
+    expect(
+      runParser(settings, { input: { page: "2" } }, (error) => [
+        error.code,
+        error.path,
+      ]),
+    ).toEqual(["invalid_type", ["page"]]);
+    expect(
+      runParser(settings, { input: { page: null } }, (error) => error.code),
+    ).toBe("invalid_type");
+  });
+
+  test("calls a function default for every missing value", () => {
+    const first = runParser(settings, { input: {} });
+    const second = runParser(settings, { input: {} });
+
+    expect(first.tags).not.toBe(second.tags);
+  });
+
+  test("works through refinements, fields and environment variables", () => {
+    const page = withDefault(parseNum, 1).andThen(min(1));
+
+    expect(runParser(parseField("page", page), { input: {} })).toBe(1);
+    expect(runParser(page, { input: 0 }, (error) => error.code)).toBe(
+      "too_small",
+    );
+    expect(
+      readEnv({ RETRIES: withDefault(parseStr.map(Number), 3) }, {}),
+    ).toEqual({ RETRIES: 3 });
+  });
+
+  test("fills in through parsers that wrap it", () => {
+    const page = withDefault(parseNum, 1);
+    const filled = parseShape({
+      lazy: lazy(() => page),
+      orElse: page.orElse(parseStr),
+      recover: page.recover(() => success(0)),
+    });
+
+    expect(runParser(filled, { input: {} })).toEqual({
+      lazy: 1,
+      orElse: 1,
+      recover: 1,
+    });
+    expect(
+      runParser(parseShape({ name: input }), { input: {} }, (error) => [
+        error.code,
+        error.path,
+      ]),
+    ).toEqual(["missing_property", []]);
+    expect(toJsonSchema(filled)).not.toHaveProperty("required");
+  });
+});
+
+describe("nullable and nullish", () => {
+  test("nullable accepts null but not a missing value", () => {
+    const user = parseShape({ nick: nullable(parseStr) });
+
+    expect(runParser(user, { input: { nick: null } })).toEqual({ nick: null });
+    expect(runParser(user, { input: { nick: "x" } })).toEqual({ nick: "x" });
+    expect(runParser(user, { input: {} }, (error) => error.code)).toBe(
+      "missing_property",
+    );
+  });
+
+  test("nullish accepts null, undefined and a missing value", () => {
+    const user = parseShape({ nick: nullish(parseStr) });
+
+    expect(runParser(user, { input: {} })).toEqual({ nick: undefined });
+    expect(runParser(user, { input: { nick: null } })).toEqual({ nick: null });
+    expect(runParser(user, { input: { nick: 1 } }, (error) => error.code)).toBe(
+      "invalid_type",
+    );
+  });
+});
+
+describe("transform", () => {
+  const cents = transform(
+    parseNum.andThen(integer),
+    (n) => n / 100,
+    (amount) => Math.round(amount * 100),
+  );
+
+  test("decodes and encodes", () => {
+    expect(runParser(cents, { input: 250 })).toBe(2.5);
+    expect(cents.encode(2.5)).toBe(250);
+    expect(runParser(cents, { input: 2.5 }, (error) => error.code)).toBe(
+      "not_integer",
+    );
+  });
+
+  test("encodes through a codec", () => {
+    const timestamp = transform(
+      dateCodec,
+      (date) => date.getTime(),
+      (ms) => new Date(ms),
+    );
+
+    expect(runParser(timestamp, { input: "1970-01-01T00:00:01.000Z" })).toBe(
+      1000,
+    );
+    expect(timestamp.encode(1000)).toBe("1970-01-01T00:00:01.000Z");
+  });
+});
+
+describe("codecs and schemas", () => {
+  const event = shapeCodec({
+    name: identityCodec(parseStr),
+    at: nullable(dateCodec),
+    retries: withDefault(identityCodec(parseNum), 0),
+    note: nullish(identityCodec(parseStr)),
+  });
+
+  test("keep encoding", () => {
+    const decoded = runParser(event, { input: { name: "a", at: null } });
+
+    expect(decoded).toEqual({
+      name: "a",
+      at: null,
+      retries: 0,
+      note: undefined,
+    });
+    expect(event.encode(decoded)).toEqual({
+      name: "a",
+      at: null,
+      retries: 0,
+      note: undefined,
+    });
+    expect(
+      event.encode({ ...decoded, at: new Date(0), note: null }),
+    ).toMatchObject({ at: "1970-01-01T00:00:00.000Z", note: null });
+  });
+
+  test("describe defaults, null and the input of transforms", () => {
+    expect(toJsonSchema(event)).toMatchObject({
+      $schema,
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        at: {
+          anyOf: [{ type: "string", format: "date-time" }, { type: "null" }],
+        },
+        retries: { type: "number", default: 0 },
+        note: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+      required: ["name", "at"],
+    });
+    expect(toJsonSchema(nullable(parseStr.orElse(parseNum)))).toEqual({
+      $schema,
+      anyOf: [{ type: "string" }, { type: "number" }, { type: "null" }],
+    });
+    expect(
+      toJsonSchema(
+        transform(
+          parseStr,
+          (s) => s.length,
+          (n) => "x".repeat(n),
+        ),
+      ),
+    ).toEqual({ $schema, type: "string" });
+    expect(toJsonSchema(parseField("page", withDefault(parseNum, 1)))).toEqual({
+      $schema,
+      type: "object",
+      properties: { page: { type: "number", default: 1 } },
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { test, expect, describe } from "vitest";
+
+import { Parser, runParser } from "../src/parser";
+import { ValidationError } from "../src/parser-error";
+import {
+  coerceBoolean,
+  coerceDuration,
+  coerceList,
+  coerceNum,
+  coerceUrl,
+  integer,
+  optional,
+  parseEnum,
+  parseStr,
+} from "../src/parsers";
+import { parseEnv, readEnv } from "../src/env";
+
+const codeOf = (parser: Parser<unknown, void>, input: unknown) =>
+  runParser(parser, { input }, (error) => error.code);
+
+describe("coercion", () => {
+  test("parseEnum", () => {
+    const parseMode = parseEnum(["dev", "prod"]);
+
+    expect(runParser(parseMode, { input: "dev" })).toBe("dev");
+    expect(
+      runParser(parseMode, { input: "test" }, (error) => error),
+    ).toMatchObject({
+      reason: 'expected one of "dev", "prod"',
+      code: "invalid_enum_value",
+      received: '"test"',
+      params: { options: ["dev", "prod"] },
+    });
+  });
+
+  test("coerceBoolean", () => {
+    expect(
+      ["true", " YES ", "on", "1", false].map((input) =>
+        runParser(coerceBoolean, { input }),
+      ),
+    ).toEqual([true, true, true, true, false]);
+    expect(codeOf(coerceBoolean, "maybe")).toBe("invalid_boolean_string");
+    expect(codeOf(coerceBoolean, 1)).toBe("invalid_type");
+  });
+
+  test("coerceUrl", () => {
+    const parsed = runParser(coerceUrl, { input: "https://example.com/a" });
+
+    expect(parsed).toBeInstanceOf(URL);
+    expect(parsed.pathname).toBe("/a");
+    expect(codeOf(coerceUrl, "example.com")).toBe("invalid_url");
+  });
+
+  test("coerceDuration", () => {
+    expect(
+      ["250", "500ms", "1.5s", "1h30m", "2d", 10].map((input) =>
+        runParser(coerceDuration, { input }),
+      ),
+    ).toEqual([250, 500, 1500, 5_400_000, 172_800_000, 10]);
+    expect(codeOf(coerceDuration, "5 minutes")).toBe("invalid_duration");
+  });
+
+  test("coerceList", () => {
+    expect(runParser(coerceList(coerceNum), { input: " 1, 2,,3 " })).toEqual([
+      1, 2, 3,
+    ]);
+    expect(
+      runParser(coerceList(parseStr, { separator: /\s+/ }), {
+        input: "a b\tc",
+      }),
+    ).toEqual(["a", "b", "c"]);
+    expect(runParser(coerceList(parseStr), { input: "" })).toEqual([]);
+    expect(
+      runParser(coerceList(coerceNum), { input: "1,x" }, (error) => error.path),
+    ).toEqual([1]);
+  });
+});
+
+const spec = {
+  PORT: coerceNum.andThen(integer),
+  MODE: parseEnum(["dev", "prod"]),
+  DEBUG: optional(coerceBoolean),
+  HOSTS: coerceList(parseStr),
+  TIMEOUT: coerceDuration,
+  API_URL: coerceUrl,
+};
+
+describe("parseEnv", () => {
+  test("parses prefixed variables into their keys", () => {
+    expect(
+      runParser(parseEnv(spec, { prefix: "APP_" }), {
+        input: {
+          APP_PORT: "8080",
+          APP_MODE: "prod",
+          APP_HOSTS: "a, b",
+          APP_TIMEOUT: "30s",
+          APP_API_URL: "https://api.example.com",
+          PORT: "1",
+        },
+      }),
+    ).toEqual({
+      PORT: 8080,
+      MODE: "prod",
+      HOSTS: ["a", "b"],
+      TIMEOUT: 30_000,
+      API_URL: new URL("https://api.example.com"),
+    });
+  });
+
+  test("applies defaults to missing and empty variables", () => {
+    const result = runParser(
+      parseEnv(spec, {
+        defaults: { PORT: "3000", MODE: "dev", TIMEOUT: "5s", DEBUG: "off" },
+      }),
+      {
+        input: {
+          MODE: "",
+          HOSTS: "a",
+          API_URL: "http://localhost",
+        },
+      },
+    );
+
+    expect(result).toMatchObject({
+      PORT: 3000,
+      MODE: "dev",
+      TIMEOUT: 5000,
+      DEBUG: false,
+    });
+  });
+
+  test("ignores inherited properties", () => {
+    expect(
+      runParser(parseEnv({ toString: parseStr }), { input: {} }, (error) => [
+        error.code,
+        error.path,
+      ]),
+    ).toEqual(["missing_variable", ["toString"]]);
+  });
+
+  test("keeps a variable named __proto__", () => {
+    const parsed = runParser(
+      parseEnv(
+        JSON.parse('{"__proto__": null}', (key, value) =>
+          key ? parseStr : value,
+        ),
+      ),
+      { input: JSON.parse('{"__proto__": "a"}') },
+    );
+
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(Object.hasOwn(parsed, "__proto__")).toBe(true);
+    expect(Object.getOwnPropertyDescriptor(parsed, "__proto__")?.value).toBe(
+      "a",
+    );
+  });
+});
+
+describe("readEnv", () => {
+  test("reports every missing or invalid variable by name", () => {
+    let error: ValidationError | undefined;
+    try {
+      readEnv(spec, {
+        PORT: "80.5",
+        MODE: "test",
+        HOSTS: "a",
+        TIMEOUT: "soon",
+      });
+    } catch (e) {
+      error = e as ValidationError;
+    }
+
+    expect(error?.errors.map((e) => [e.code, e.path])).toEqual([
+      ["not_integer", ["PORT"]],
+      ["invalid_enum_value", ["MODE"]],
+      ["invalid_duration", ["TIMEOUT"]],
+      ["missing_variable", ["API_URL"]],
+    ]);
+    expect(error?.message).toBe(
+      [
+        'integer expected at path "PORT"',
+        'expected one of "dev", "prod" at path "MODE"',
+        'duration expected at path "TIMEOUT"',
+        'environment variable expected at path "API_URL"',
+      ].join("\n"),
+    );
+  });
+
+  test("returns the parsed configuration", () => {
+    expect(
+      readEnv(
+        { PORT: coerceNum, NAME: optional(parseStr) },
+        { SVC_PORT: "80" },
+        { prefix: "SVC_" },
+      ),
+    ).toEqual({ PORT: 80 });
+  });
+});
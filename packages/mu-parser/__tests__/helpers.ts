@@ -0,0 +1,57 @@
+import { Parser, runParser } from "../src/parser";
+import { ValidationError } from "../src/parser-error";
+
+/**
+ * The parsed value, or the details of the first error.
+ */
+export const check = <T>(parser: Parser<T, any>, input: unknown) =>
+  runParser(parser, { input }, ({ reason, code, params, path }) => ({
+    reason,
+    code,
+    params,
+    path,
+  }));
+
+/**
+ * The parsed value, or the code and path of every error.
+ */
+export const checkAll = <T>(parser: Parser<T, any>, input: unknown) =>
+  runParser(parser, { input, collectErrors: true }, ({ errors }) =>
+    errors.map(({ code, path }) => ({ code, path })),
+  );
+
+export const collect = async <T>(items: AsyncIterable<T>) => {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+};
+
+const asValidationError = (e: unknown) => {
+  if (e instanceof ValidationError) {
+    return e;
+  }
+  throw new Error("expected a ValidationError", { cause: e });
+};
+
+/**
+ * The `ValidationError` that `run` throws or the promise rejects with.
+ */
+export function failure(run: () => unknown): ValidationError;
+export function failure(promise: Promise<unknown>): Promise<ValidationError>;
+export function failure(
+  run: (() => unknown) | Promise<unknown>,
+): ValidationError | Promise<ValidationError> {
+  if (run instanceof Promise) {
+    return run.then(() => {
+      throw new Error("expected a ValidationError");
+    }, asValidationError);
+  }
+  try {
+    run();
+  } catch (e) {
+    return asValidationError(e);
+  }
+  throw new Error("expected a ValidationError");
+}
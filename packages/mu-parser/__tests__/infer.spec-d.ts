@@ -0,0 +1,183 @@
+import { test, expectTypeOf, describe } from "vitest";
+
+import { combineAsync, liftAsync } from "../src/async-parser";
+import { identityCodec } from "../src/codec";
+import { Infer, InferInput, InferState } from "../src/infer";
+import { combine, getState, lazy, Parser, success } from "../src/parser";
+import {
+  dateCodec,
+  nullable,
+  nullish,
+  oneOf,
+  optional,
+  parseField,
+  parseList,
+  parseLit,
+  parseNull,
+  parseNum,
+  parseObj,
+  parseShape,
+  parseStr,
+  parseTaggedUnion,
+  record,
+  transform,
+  tuple,
+  withDefault,
+} from "../src/parsers";
+
+const infer = <P>(parser: P) => expectTypeOf<Infer<P>>(parser as never);
+
+const inferState = <P>(parser: P) =>
+  expectTypeOf<InferState<P>>(parser as never);
+
+describe("Infer", () => {
+  test("primitives and literals", () => {
+    infer(parseStr).toEqualTypeOf<string>();
+    infer(parseNum).toEqualTypeOf<number>();
+    infer(parseNull).toEqualTypeOf<null>();
+    infer(parseObj).toEqualTypeOf<Record<string | number | symbol, unknown>>();
+
+    const admin = parseLit("admin");
+    infer(admin).toEqualTypeOf<"admin">();
+    const answer = parseLit(42);
+    infer(answer).toEqualTypeOf<42>();
+  });
+
+  test("combinators", () => {
+    const optionalStr = parseStr.optional;
+    infer(optionalStr).toEqualTypeOf<string | undefined>();
+
+    const strOrNum = parseStr.orElse(parseNum);
+    infer(strOrNum).toEqualTypeOf<string | number>();
+
+    const role = oneOf(parseLit("admin"), parseLit("user"));
+    infer(role).toEqualTypeOf<"admin" | "user">();
+
+    const lengths = parseList(parseStr.map((s) => s.length));
+    infer(lengths).toEqualTypeOf<number[]>();
+
+    const pair = tuple(parseStr, parseNum);
+    infer(pair).toEqualTypeOf<[string, number]>();
+
+    const scores = record(parseStr, parseNum);
+    infer(scores).toEqualTypeOf<Record<string, number>>();
+
+    const name = parseField("name", parseStr);
+    infer(name).toEqualTypeOf<string>();
+
+    const always = success(1 as const);
+    infer(always).toEqualTypeOf<1>();
+  });
+
+  test("combine", () => {
+    const user = combine((bind) => ({
+      name: bind(parseField("name", parseStr)),
+      age: bind(parseField("age", parseNum).optional),
+    }));
+
+    infer(user).toEqualTypeOf<{
+      name: string;
+      age: number | undefined;
+    }>();
+  });
+
+  test("nested shapes", () => {
+    const user = parseShape({
+      name: parseStr,
+      role: oneOf(parseLit("admin"), parseLit("user")),
+      address: parseShape({ city: parseStr, zip: optional(parseStr) }),
+      tags: parseList(parseStr),
+    });
+
+    infer(user).toEqualTypeOf<{
+      name: string;
+      role: "admin" | "user";
+      address: { city: string; zip?: string | undefined };
+      tags: string[];
+    }>();
+
+    const open = parseShape({ id: parseNum }, { unknownKeys: "passthrough" });
+    infer(open).toMatchTypeOf<{ id: number }>();
+    infer(open).toHaveProperty("other");
+  });
+
+  test("tagged unions and recursive parsers", () => {
+    const shape = parseTaggedUnion("kind", {
+      circle: parseShape({ kind: parseLit("circle"), r: parseNum }),
+      square: parseShape({ kind: parseLit("square"), side: parseNum }),
+    });
+    infer(shape).toEqualTypeOf<
+      { kind: "circle"; r: number } | { kind: "square"; side: number }
+    >();
+
+    interface Tree {
+      value: number;
+      children: Tree[];
+    }
+    const tree: Parser<Tree, any> = lazy(() =>
+      parseShape({ value: parseNum, children: parseList(tree) }),
+    );
+    infer(tree).toEqualTypeOf<Tree>();
+  });
+
+  test("async parsers", () => {
+    const name = liftAsync(parseStr).map((s) => s.length);
+    infer(name).toEqualTypeOf<number>();
+
+    const user = combineAsync(async (bind) => ({
+      name: await bind(parseField("name", parseStr)),
+    }));
+    infer(user).toEqualTypeOf<{ name: string }>();
+  });
+});
+
+describe("InferInput", () => {
+  const inferInput = <P>(parser: P) =>
+    expectTypeOf<InferInput<P>>(parser as never);
+
+  test("defaults, null and transforms", () => {
+    const page = withDefault(parseNum, 1);
+    infer(page).toEqualTypeOf<number>();
+    inferInput(page).toEqualTypeOf<number>();
+
+    const at = nullable(dateCodec);
+    infer(at).toEqualTypeOf<Date | null>();
+    inferInput(at).toEqualTypeOf<string | null>();
+
+    const note = nullish(identityCodec(parseStr));
+    inferInput(note).toEqualTypeOf<string | null | undefined>();
+
+    const retries = withDefault(identityCodec(parseNum), 0);
+    inferInput(retries).toEqualTypeOf<number | undefined>();
+
+    const length = transform(
+      parseStr,
+      (s) => s.length,
+      (n) => "x".repeat(n),
+    );
+    infer(length).toEqualTypeOf<number>();
+    inferInput(length).toEqualTypeOf<string>();
+
+    const ms = transform(
+      dateCodec,
+      (date) => date.getTime(),
+      (n) => new Date(n),
+    );
+    infer(ms).toEqualTypeOf<number>();
+    inferInput(ms).toEqualTypeOf<string>();
+  });
+});
+
+describe("InferState", () => {
+  test("state of stateful parsers", () => {
+    const counter = getState<number>();
+    inferState(counter).toEqualTypeOf<number>();
+
+    const withCount = combine<string, { count: number }>((bind) =>
+      bind(parseStr),
+    );
+    inferState(withCount).toEqualTypeOf<{
+      count: number;
+    }>();
+  });
+});
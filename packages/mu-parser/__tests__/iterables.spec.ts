@@ -0,0 +1,172 @@
+import { test, expect, describe } from "vitest";
+
+import { asyncParser, liftAsync } from "../src/async-parser";
+import { runParser, updateState } from "../src/parser";
+import { err, ok } from "../src/parser-result";
+import { ValidationError } from "../src/parser-error";
+import {
+  parseBigInt,
+  parseField,
+  parseIterable,
+  parseNum,
+  parseShape,
+  parseStr,
+  tuple,
+} from "../src/parsers";
+import { parseEach, parseEachAsync } from "../src/streams";
+import { jsPath } from "../src/messages";
+import { toJsonSchema } from "../src/json-schema";
+import { collect } from "./helpers";
+
+function* rows() {
+  yield { id: 1 };
+  yield { id: 2 };
+}
+
+describe("parseIterable", () => {
+  test("accepts any iterable", () => {
+    const parseRow = parseShape({ id: parseNum });
+
+    expect(runParser(parseIterable(parseRow), { input: rows() })).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+    expect(
+      runParser(parseIterable(parseNum), { input: new Float32Array([0.5, 2]) }),
+    ).toEqual([0.5, 2]);
+    expect(
+      runParser(
+        parseIterable(parseStr),
+        { input: "ab" },
+        (error) => error.code,
+      ),
+    ).toBe("invalid_type");
+    expect(
+      runParser(
+        parseField("samples", parseIterable(parseStr)),
+        { input: { samples: new Set(["a", 1]) } },
+        (error) => error.path,
+      ),
+    ).toEqual(["samples", 1]);
+  });
+
+  test("preserves the source collection type", () => {
+    const parser = parseIterable(parseNum, { preserve: true });
+
+    const samples = runParser(parser, { input: new Float32Array([0.5, 2]) });
+    expect(samples).toBeInstanceOf(Float32Array);
+    expect([...samples]).toEqual([0.5, 2]);
+    expect(runParser(parser, { input: new Set([1, 2]) })).toEqual(
+      new Set([1, 2]),
+    );
+    expect(
+      runParser(parseIterable(tuple(parseStr, parseNum), { preserve: true }), {
+        input: new Map([["a", 1]]),
+      }),
+    ).toEqual(new Map([["a", 1]]));
+    expect(runParser(parser, { input: [1] })).toEqual([1]);
+  });
+
+  test("fails on items the typed array cannot hold", () => {
+    const input = new BigInt64Array([1n, 2n]);
+
+    expect(
+      runParser(parseIterable(parseBigInt, { preserve: true }), { input }),
+    ).toEqual(input);
+    expect(
+      runParser(
+        parseIterable(parseBigInt.map(Number), { preserve: true }),
+        { input, collectErrors: true },
+        (error) => error.errors.map(({ reason, path }) => [reason, path]),
+      ),
+    ).toEqual([
+      ["bigint expected", [0]],
+      ["bigint expected", [1]],
+    ]);
+    expect(
+      runParser(
+        parseIterable(parseNum.map(String), { preserve: true }),
+        { input: new Float32Array([1]) },
+        (error) => [error.reason, error.path],
+      ),
+    ).toEqual(["number expected", [0]]);
+  });
+
+  test("describes arrays", () => {
+    const parser = parseIterable(parseNum, { preserve: true });
+
+    expect(parser.meta).toEqual({
+      kind: "iterable",
+      item: parseNum,
+      preserve: true,
+    });
+    expect(toJsonSchema(parser)).toMatchObject({
+      type: "array",
+      items: { type: "number" },
+    });
+  });
+});
+
+describe("parseEach", () => {
+  test("yields parsed items lazily", () => {
+    const pulled: number[] = [];
+    function* numbers() {
+      for (const n of [1, 2, "3", 4]) {
+        pulled.push(pulled.length);
+        yield n;
+      }
+    }
+    const items = parseEach(parseNum, numbers());
+
+    expect(items.next().value).toBe(1);
+    expect(pulled).toEqual([0]);
+    expect(items.next().value).toBe(2);
+    expect(() => items.next()).toThrow('number expected at path "/2"');
+    expect(pulled).toEqual([0, 1, 2]);
+  });
+
+  test("threads state and formats errors", () => {
+    const count = updateState((n: number) => n + 1);
+
+    expect([...parseEach(count, ["a", "b"], { initialState: 0 })]).toEqual([
+      1, 2,
+    ]);
+    expect(() => [
+      ...parseEach(parseShape({ id: parseNum }), [{ id: 1 }, {}], {
+        renderPath: jsPath,
+      }),
+    ]).toThrow(`property 'id' expected at path "[1]"`);
+  });
+});
+
+describe("parseEachAsync", () => {
+  test("validates async iterables", async () => {
+    async function* stream() {
+      yield "a";
+      yield "b";
+    }
+
+    expect(await collect(parseEachAsync(parseStr, stream()))).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  test("fails with the item index", async () => {
+    const parsePositive = liftAsync(parseNum).andThen((n) =>
+      asyncParser(async (ctx) => (n > 0 ? ok(n, ctx) : err("positive", ctx))),
+    );
+    const received: number[] = [];
+    const run = async () => {
+      for await (const n of parseEachAsync(parsePositive, [1, 2, -3, 4])) {
+        received.push(n);
+      }
+    };
+
+    await expect(run()).rejects.toThrow(ValidationError);
+    await expect(run()).rejects.toMatchObject({
+      errors: [{ path: [2] }],
+    });
+    expect(received).toEqual([1, 2, 1, 2]);
+  });
+});
@@ -0,0 +1,329 @@
+import { test, expect, describe } from "vitest";
+
+import { combine, fail, lazy, Parser, runParser, success } from "../src/parser";
+import {
+  parseStr,
+  parseNum,
+  parseLit,
+  parseNull,
+  parseObj,
+  parseEnum,
+  parseList,
+  parseField,
+  oneOf,
+  tuple,
+  record,
+  parseShape,
+  parseTaggedUnion,
+  optional,
+} from "../src/parsers";
+import {
+  fromJsonSchema,
+  JsonSchemaDefinition,
+  toJsonSchema,
+} from "../src/json-schema";
+
+const $schema = "https://json-schema.org/draft/2020-12/schema";
+
+describe("toJsonSchema", () => {
+  test("primitives", () => {
+    expect(toJsonSchema(parseStr)).toEqual({ $schema, type: "string" });
+    expect(toJsonSchema(parseNum)).toEqual({ $schema, type: "number" });
+    expect(toJsonSchema(parseLit("a"))).toEqual({ $schema, const: "a" });
+    expect(toJsonSchema(parseNull)).toEqual({ $schema, type: "null" });
+    expect(toJsonSchema(parseObj)).toEqual({ $schema, type: "object" });
+    expect(toJsonSchema(parseEnum(["a", 1, null]))).toEqual({
+      $schema,
+      enum: ["a", 1, null],
+    });
+  });
+
+  test("fields and lists", () => {
+    expect(toJsonSchema(parseField("tags", parseList(parseStr)))).toEqual({
+      $schema,
+      type: "object",
+      properties: { tags: { type: "array", items: { type: "string" } } },
+      required: ["tags"],
+    });
+    expect(toJsonSchema(parseField("nick", parseStr).optional)).toEqual({
+      $schema,
+      type: "object",
+      properties: { nick: { type: "string" } },
+    });
+  });
+
+  test("unions", () => {
+    expect(toJsonSchema(parseStr.orElse(parseNum).orElse(parseNull))).toEqual({
+      $schema,
+      anyOf: [{ type: "string" }, { type: "number" }, { type: "null" }],
+    });
+    expect(toJsonSchema(oneOf(parseLit("a"), parseLit("b")))).toEqual({
+      $schema,
+      anyOf: [{ const: "a" }, { const: "b" }],
+    });
+  });
+
+  test("tuples and records", () => {
+    expect(toJsonSchema(tuple(parseStr, parseNum))).toEqual({
+      $schema,
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      items: false,
+      minItems: 2,
+      maxItems: 2,
+    });
+    expect(toJsonSchema(record(parseStr, parseNum))).toEqual({
+      $schema,
+      type: "object",
+      propertyNames: { type: "string" },
+      additionalProperties: { type: "number" },
+    });
+  });
+
+  test("shapes and tagged unions", () => {
+    const parseUser = parseShape(
+      { name: parseStr, nick: optional(parseStr) },
+      { unknownKeys: "strict" },
+    );
+
+    expect(toJsonSchema(parseUser)).toEqual({
+      $schema,
+      type: "object",
+      properties: { name: { type: "string" }, nick: { type: "string" } },
+      required: ["name"],
+      additionalProperties: false,
+    });
+    expect(
+      toJsonSchema(
+        parseTaggedUnion("type", {
+          user: parseUser,
+        }),
+      ),
+    ).toEqual({
+      $schema,
+      oneOf: [
+        {
+          allOf: [
+            {
+              type: "object",
+              properties: { type: { const: "user" } },
+              required: ["type"],
+            },
+            {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                nick: { type: "string" },
+              },
+              required: ["name"],
+              additionalProperties: false,
+            },
+          ],
+        },
+      ],
+    });
+    expect(
+      toJsonSchema(parseTaggedUnion("version", { 1: parseObj })).oneOf,
+    ).toMatchObject([
+      { allOf: [{ properties: { version: { enum: ["1", 1] } } }, {}] },
+    ]);
+  });
+
+  test("recursive parsers", () => {
+    interface Node {
+      value: number;
+      children: Node[];
+    }
+    const parseNode: Parser<Node, any> = lazy(() =>
+      parseShape({ value: parseNum, children: parseList(parseNode) }),
+    );
+    const schema = toJsonSchema(parseField("root", parseNode));
+
+    expect(schema).toEqual({
+      $schema,
+      type: "object",
+      properties: { root: { $ref: "#/$defs/lazy0" } },
+      required: ["root"],
+      $defs: {
+        lazy0: {
+          type: "object",
+          properties: {
+            value: { type: "number" },
+            children: { type: "array", items: { $ref: "#/$defs/lazy0" } },
+          },
+          required: ["value", "children"],
+        },
+      },
+    });
+    expect(
+      runParser(
+        fromJsonSchema(schema),
+        { input: { root: { value: 1, children: [{ value: "2" }] } } },
+        (error) => error.path,
+      ),
+    ).toEqual(["root", "children", 0, "value"]);
+  });
+
+  test("opaque parsers", () => {
+    expect(toJsonSchema(parseStr.map((s) => s.length))).toEqual({
+      $schema,
+      type: "string",
+      $comment: "value transformed by map",
+    });
+    expect(
+      toJsonSchema(
+        parseNum.andThen((n) => (n > 0 ? success(n) : fail("positive"))),
+      ),
+    ).toEqual({
+      $schema,
+      type: "number",
+      $comment: "further constrained by andThen",
+    });
+    expect(
+      toJsonSchema(combine((bind) => bind(parseField("a", parseStr)))),
+    ).toEqual({ $schema, $comment: "opaque combine block" });
+  });
+});
+
+describe("fromJsonSchema", () => {
+  const validate = (schema: JsonSchemaDefinition, input: unknown) =>
+    runParser(fromJsonSchema(schema), { input }, (error) => [
+      error.reason,
+      error.path,
+    ]);
+
+  test("types", () => {
+    expect(validate({ type: "string" }, "a")).toBe("a");
+    expect(validate({ type: "integer" }, 1.5)).toEqual([
+      "integer expected",
+      [],
+    ]);
+    expect(validate({ type: "boolean" }, true)).toBe(true);
+    expect(validate({ type: "object" }, [])).toEqual(["object expected", []]);
+    expect(validate({ type: ["string", "null"] }, null)).toBe(null);
+    expect(validate(true, 1)).toBe(1);
+    expect(validate(false, 1)).toEqual(["no value allowed", []]);
+  });
+
+  test("objects and arrays", () => {
+    const schema: JsonSchemaDefinition = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    };
+    const value = { name: "a", tags: ["b"] };
+
+    expect(validate(schema, value)).toBe(value);
+    expect(validate(schema, { name: "a", tags: ["b", 1] })).toEqual([
+      "string expected",
+      ["tags", 1],
+    ]);
+    expect(validate(schema, { tags: [] })).toEqual([
+      "property 'name' expected",
+      [],
+    ]);
+    expect(validate(schema, { name: "a", extra: 1 })).toEqual([
+      "unexpected property 'extra'",
+      ["extra"],
+    ]);
+    expect(validate({ properties: { a: { type: "string" } } }, 1)).toBe(1);
+    const extra = { a: "x", b: 1 };
+    expect(validate({ properties: { a: { type: "string" } } }, extra)).toBe(
+      extra,
+    );
+    expect(validate({ items: { type: "string" } }, value.tags)).toBe(
+      value.tags,
+    );
+  });
+
+  test("own properties only", () => {
+    const proto = JSON.parse('{ "__proto__": 1 }');
+    const schema: JsonSchemaDefinition = JSON.parse(
+      '{ "properties": { "__proto__": { "type": "number" } }, "required": ["__proto__"] }',
+    );
+
+    expect(validate({ type: "object", required: ["toString"] }, {})).toEqual([
+      "property 'toString' expected",
+      [],
+    ]);
+    expect(validate(schema, proto)).toBe(proto);
+    expect(validate(schema, JSON.parse('{ "__proto__": "1" }'))).toEqual([
+      "number expected",
+      ["__proto__"],
+    ]);
+    expect(validate(schema, {})).toEqual(["property '__proto__' expected", []]);
+  });
+
+  test("enum and const", () => {
+    expect(validate({ enum: ["a", 1, [true]] }, [true])).toEqual([true]);
+    expect(validate({ enum: ["a", 1] }, "b")).toEqual([
+      `expected one of "a", 1`,
+      [],
+    ]);
+    expect(validate({ const: "a" }, "b")).toEqual([`expected value "a"`, []]);
+    expect(validate({ const: { a: 1 } }, { a: 2 })).toEqual([
+      `expected value {"a":1}`,
+      [],
+    ]);
+  });
+
+  test("anyOf and oneOf", () => {
+    expect(
+      validate({ anyOf: [{ type: "string" }, { type: "number" }] }, true),
+    ).toEqual(["string expected", []]);
+    expect(
+      validate({ oneOf: [{ type: "number" }, { type: "integer" }] }, 1),
+    ).toEqual(["expected exactly one schema to match, 2 matched", []]);
+    expect(
+      validate({ oneOf: [{ type: "number" }, { type: "integer" }] }, 1.5),
+    ).toBe(1.5);
+  });
+
+  test("local references", () => {
+    const schema: JsonSchemaDefinition = {
+      $ref: "#/$defs/node",
+      $defs: {
+        node: {
+          type: "object",
+          properties: {
+            value: { type: "number" },
+            children: { type: "array", items: { $ref: "#/$defs/node" } },
+          },
+          required: ["value"],
+        },
+      },
+    };
+
+    expect(
+      validate(schema, { value: 1, children: [{ value: 2, children: [] }] }),
+    ).toEqual({ value: 1, children: [{ value: 2, children: [] }] });
+    expect(validate(schema, { value: 1, children: [{ value: "2" }] })).toEqual([
+      "number expected",
+      ["children", 0, "value"],
+    ]);
+    expect(() => fromJsonSchema({ $ref: "other.json#/a" })).toThrow(
+      `unsupported $ref "other.json#/a"`,
+    );
+    expect(() => fromJsonSchema({ $ref: "#/$defs/missing" })).toThrow(
+      `unresolved $ref "#/$defs/missing"`,
+    );
+  });
+
+  test("round trip", () => {
+    const parser = fromJsonSchema(
+      toJsonSchema(
+        parseShape({ id: parseNum, kind: oneOf(parseLit("a"), parseLit("b")) }),
+      ),
+    );
+
+    expect(
+      runParser(parser, { input: { id: 1, kind: "c" } }, (error) =>
+        error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([["kind"], ["kind"]]);
+  });
+});
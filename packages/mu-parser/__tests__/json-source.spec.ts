@@ -0,0 +1,135 @@
+import { test, expect, describe } from "vitest";
+
+import { runParser } from "../src/parser";
+import { ValidationError } from "../src/parser-error";
+import {
+  parseField,
+  parseList,
+  parseNum,
+  parseShape,
+  parseStr,
+} from "../src/parsers";
+import {
+  codeFrame,
+  parseJsonSource,
+  withSourceLocations,
+} from "../src/json-source";
+import { jsPath } from "../src/messages";
+import { failure } from "./helpers";
+
+const config = `{
+  "name": "api",
+  "services": [
+    { "host": "a", "port": 80 },
+    { "host": "b", "port": "80" }
+  ]
+}`;
+
+const parseConfig = parseShape({
+  name: parseStr,
+  services: parseList(parseShape({ host: parseStr, port: parseNum })),
+});
+
+describe("parseJsonSource", () => {
+  test("locates values by path", () => {
+    const doc = parseJsonSource(config);
+
+    expect(doc.value).toEqual(JSON.parse(config));
+    expect(doc.locate([])).toEqual({ line: 1, column: 1 });
+    expect(doc.locate(["services", 1, "port"])).toEqual({
+      line: 5,
+      column: 28,
+    });
+    expect(doc.locate(["services", 1])).toEqual({ line: 5, column: 5 });
+  });
+
+  test("falls back to the closest ancestor", () => {
+    const doc = parseJsonSource(config);
+
+    expect(doc.locate(["services", 1, "missing"])).toEqual({
+      line: 5,
+      column: 5,
+    });
+  });
+
+  test("parses JSONC when asked", () => {
+    const text = `// service list
+{
+  /* the name */ "name": "api", // trailing
+  "services": [1, 2,],
+}`;
+
+    expect(() => parseJsonSource(text)).toThrow(ValidationError);
+    const doc = parseJsonSource(text, { jsonc: true });
+    expect(doc.value).toEqual({ name: "api", services: [1, 2] });
+    expect(doc.locate(["services", 1])).toEqual({ line: 4, column: 19 });
+    expect(parseJsonSource('"a/*b*/"', { jsonc: true }).value).toBe("a/*b*/");
+  });
+
+  test("reports syntax errors", () => {
+    expect(
+      failure(() => parseJsonSource('{"a": 1 /* open', { jsonc: true })).errors,
+    ).toMatchObject([{ code: "invalid_json", received: "end of input" }]);
+    expect(
+      failure(() => parseJsonSource("[1 / 2]", { jsonc: true })).errors,
+    ).toMatchObject([{ code: "invalid_json", received: '"/"' }]);
+  });
+});
+
+describe("codeFrame", () => {
+  test("marks the column in the surrounding lines", () => {
+    expect(codeFrame(config, { line: 5, column: 28 }, 1)).toBe(
+      [
+        '  4 |     { "host": "a", "port": 80 },',
+        '> 5 |     { "host": "b", "port": "80" }',
+        "    |                            ^",
+        "  6 |   ]",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps tabs in the marker line", () => {
+    expect(codeFrame('{\n\t"a": x\n}', { line: 2, column: 7 }, 0)).toBe(
+      '> 2 | \t"a": x\n    | \t     ^',
+    );
+  });
+});
+
+describe("withSourceLocations", () => {
+  test("adds line, column and code frame to messages", () => {
+    const doc = parseJsonSource(config);
+    const error = failure(() =>
+      runParser(parseConfig, { input: doc.value, ...withSourceLocations(doc) }),
+    );
+
+    expect(error.message).toBe(
+      [
+        'number expected at path "/services/1/port" (line 5, column 28)',
+        '  3 |   "services": [',
+        '  4 |     { "host": "a", "port": 80 },',
+        '> 5 |     { "host": "b", "port": "80" }',
+        "    |                            ^",
+        "  6 |   ]",
+        "  7 | }",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps other formatting options", () => {
+    const doc = parseJsonSource(config);
+    const error = failure(() =>
+      runParser(parseField("services", parseList(parseStr)), {
+        input: doc.value,
+        collectErrors: true,
+        ...withSourceLocations(doc, { renderPath: jsPath, codeFrame: false }),
+      }),
+    );
+
+    expect(error.message).toBe(
+      [
+        'string expected at path "services[0]" (line 4, column 5)',
+        'string expected at path "services[1]" (line 5, column 5)',
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { test, expect, describe } from "vitest";
+
+import {
+  nullable,
+  parseField,
+  parseList,
+  parseNum,
+  parseObj,
+  parseShape,
+  parseStr,
+  withDefault,
+} from "../src/parsers";
+import { parseJsonArrayStream, parseJsonStream } from "../src/json-stream";
+import { jsPath } from "../src/messages";
+import { Parser } from "../src/parser";
+import { collect, failure } from "./helpers";
+
+const chunked = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+    text.slice(i * size, (i + 1) * size),
+  );
+
+const parseUser = parseShape({ name: parseStr, tags: parseList(parseStr) });
+
+const document = JSON.stringify({
+  users: [
+    { name: "ann", tags: ["a", "b"] },
+    { name: 'bob "\\u2603" ☃', tags: [] },
+  ],
+  total: -1.5e2,
+  flags: [true, false, null],
+  empty: {},
+});
+
+describe("parseJsonStream", () => {
+  test("builds the same values as JSON.parse from chunks of any size", async () => {
+    for (const size of [1, 2, 7, document.length]) {
+      await expect(
+        parseJsonStream(parseField("total", parseNum), chunked(document, size)),
+      ).resolves.toBe(-150);
+    }
+    await expect(
+      parseJsonStream(parseObj, chunked(document, 3)),
+    ).resolves.toEqual(JSON.parse(document));
+  });
+
+  test("decodes UTF-8 bytes split inside a character", async () => {
+    const bytes = new TextEncoder().encode('"snow ☃"');
+
+    await expect(
+      parseJsonStream(
+        parseStr,
+        Array.from(bytes, (byte) => Uint8Array.of(byte)),
+      ),
+    ).resolves.toBe("snow ☃");
+    await expect(parseJsonStream(parseStr, bytes)).resolves.toBe("snow ☃");
+  });
+
+  test("reads async sources", async () => {
+    async function* source() {
+      yield "[1, ";
+      yield "2]";
+    }
+
+    await expect(
+      parseJsonStream(parseList(parseNum), source()),
+    ).resolves.toEqual([1, 2]);
+  });
+
+  test("reports syntax errors with path and position", async () => {
+    const error = await failure(
+      parseJsonStream(parseUser, ['{"name": "ann",\n "tags": ["a" "b"]}']),
+    );
+
+    expect(error.errors).toMatchObject([
+      {
+        code: "invalid_json",
+        path: ["tags", 1],
+        expected: "',' or ']'",
+        received: '"\\""',
+        params: { line: 2, column: 15 },
+      },
+    ]);
+    expect(error.message).toContain(
+      `invalid JSON, ',' or ']' expected at line 2, column 15 at path "/tags/1"`,
+    );
+
+    await expect(parseJsonStream(parseNum, ["[1,"])).rejects.toMatchObject({
+      errors: [{ received: "end of input", path: [1] }],
+    });
+    await expect(parseJsonStream(parseNum, ["1 2"])).rejects.toMatchObject({
+      errors: [{ expected: "end of input", received: '"2"' }],
+    });
+    await expect(parseJsonStream(parseNum, ["01x"])).rejects.toMatchObject({
+      errors: [{ code: "invalid_json", received: '"01x"' }],
+    });
+    await expect(
+      parseJsonStream(parseObj, ['{"a": tru}']),
+    ).rejects.toMatchObject({
+      errors: [
+        { received: '"tru"', path: ["a"], params: { line: 1, column: 7 } },
+      ],
+    });
+    await expect(parseJsonStream(parseStr, ['"\\q"'])).rejects.toMatchObject({
+      errors: [{ received: "invalid string" }],
+    });
+  });
+
+  test("keeps __proto__ an own property", async () => {
+    const value = await parseJsonStream(parseObj, [
+      '{"__proto__": {"polluted": true}}',
+    ]);
+
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(Object.keys(value)).toEqual(["__proto__"]);
+  });
+
+  test("validates list elements before the rest of the input is read", async () => {
+    const reading = (chunks: string[]) => {
+      const source = {
+        read: 0,
+        *[Symbol.iterator]() {
+          for (const chunk of chunks) {
+            source.read++;
+            yield chunk;
+          }
+        },
+      };
+      return source;
+    };
+    const rows = ['[{"name": "ann", "tags": []},', '{"name": 1},', "{}]"];
+
+    const source = reading(rows);
+    const error = await failure(parseJsonStream(parseList(parseUser), source));
+    expect(source.read).toBe(2);
+    expect(error.errors).toMatchObject([
+      { code: "invalid_type", path: [1, "name"] },
+    ]);
+
+    const parsers: Parser<unknown, void>[] = [
+      parseShape({ rows: parseList(parseUser) }),
+      parseShape({ rows: parseList(parseUser).map((users) => users.length) }),
+      parseShape({ rows: withDefault(parseList(parseUser), []) }),
+      parseField("rows", nullable(parseList(parseUser))),
+    ];
+    for (const parser of parsers) {
+      const source = reading(['{"total": 2, "rows": ', ...rows, "}"]);
+      const error = await failure(parseJsonStream(parser, source));
+      expect(source.read).toBe(3);
+      expect(error.message).toBe('string expected at path "/rows/1/name"');
+    }
+
+    const field = reading(['{"total": "2", ', '"rows": []}']);
+    await failure(
+      parseJsonStream(parseShape({ total: parseNum, rows: parseObj }), field),
+    );
+    expect(field.read).toBe(1);
+  });
+
+  test("reads the whole input when collecting errors", async () => {
+    const error = await failure(
+      parseJsonStream(
+        parseShape({ rows: parseList(parseNum).map((rows) => rows.length) }),
+        ['{"rows": [1, "a", 2, null]}'],
+        { collectErrors: true },
+      ),
+    );
+
+    expect(error.errors.map((e) => e.path)).toEqual([
+      ["rows", 1],
+      ["rows", 3],
+    ]);
+  });
+
+  test("formats messages", async () => {
+    const error = await failure(
+      parseJsonStream(parseList(parseUser), ['[{"name": 1, "tags": []}]'], {
+        renderPath: jsPath,
+      }),
+    );
+
+    expect(error.message).toContain('string expected at path "[0].name"');
+  });
+});
+
+describe("parseJsonArrayStream", () => {
+  test("yields elements as they are validated", async () => {
+    const seen: string[] = [];
+    async function* source() {
+      seen.push("chunk 1");
+      yield '[{"name": "ann", "tags": []}, {"na';
+      seen.push("chunk 2");
+      yield 'me": "bob", "tags": ["x"]}]';
+    }
+
+    for await (const user of parseJsonArrayStream(parseUser, source())) {
+      seen.push(user.name);
+    }
+
+    expect(seen).toEqual(["chunk 1", "ann", "chunk 2", "bob"]);
+  });
+
+  test("yields valid elements before a syntax error", async () => {
+    const seen: number[] = [];
+    const error = await failure(
+      (async () => {
+        for await (const value of parseJsonArrayStream(parseNum, [
+          "[1, 2,, 3]",
+        ])) {
+          seen.push(value);
+        }
+      })(),
+    );
+
+    expect(seen).toEqual([1, 2]);
+    expect(error.errors).toMatchObject([{ code: "invalid_json", path: [2] }]);
+  });
+
+  test("requires a top-level array", async () => {
+    await expect(
+      collect(parseJsonArrayStream(parseNum, ['{"a": 1}'])),
+    ).rejects.toMatchObject({
+      errors: [
+        {
+          code: "invalid_type",
+          expected: "array",
+          received: "object",
+          path: [],
+        },
+      ],
+    });
+  });
+
+  test("collects errors when asked", async () => {
+    const error = await failure(
+      collect(
+        parseJsonArrayStream(parseNum, ['[1, "a", 2, null]'], {
+          collectErrors: true,
+        }),
+      ),
+    );
+
+    expect(error.errors.map((e) => e.path)).toEqual([[1], [3]]);
+  });
+
+  test("accepts empty arrays", async () => {
+    await expect(
+      collect(parseJsonArrayStream(parseNum, [" [ ] "])),
+    ).resolves.toEqual([]);
+  });
+});
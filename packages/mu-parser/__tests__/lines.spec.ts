@@ -0,0 +1,108 @@
+import { test, expect, describe } from "vitest";
+
+import { asyncParser } from "../src/async-parser";
+import { ok } from "../src/parser-result";
+import { parseNum, parseShape, parseStr } from "../src/parsers";
+import { LineResult, parseLines, summarizeLines } from "../src/lines";
+import { jsPath } from "../src/messages";
+import { collect } from "./helpers";
+
+const parseEvent = parseShape({ type: parseStr, at: parseNum });
+
+const log = [
+  '{"type": "start", "at": 1}',
+  "",
+  '{"type": "stop", "at": "2"}',
+  '{"type": "stop", "at": 3,}',
+  '{"type": "start", "at": 4}\r',
+].join("\n");
+
+const describeEntry = (entry: LineResult<unknown>) =>
+  "error" in entry
+    ? { line: entry.line, paths: entry.error.errors.map((e) => e.path) }
+    : entry;
+
+const errorOf = (entry?: LineResult<unknown>) =>
+  entry && "error" in entry ? entry.error : undefined;
+
+describe("parseLines", () => {
+  test("yields a result per record, numbered by line", async () => {
+    const entries = await collect(parseLines(parseEvent, log));
+
+    expect(entries.map(describeEntry)).toEqual([
+      { line: 1, value: { type: "start", at: 1 } },
+      { line: 3, paths: [[3, "at"]] },
+      { line: 4, paths: [[4]] },
+      { line: 5, value: { type: "start", at: 4 } },
+    ]);
+  });
+
+  test("reports syntax errors at the line of the input", async () => {
+    const [, , entry] = await collect(parseLines(parseEvent, log));
+
+    expect(errorOf(entry)?.errors).toMatchObject([
+      { code: "invalid_json", params: { line: 4, column: 26 } },
+    ]);
+  });
+
+  test("formats messages", async () => {
+    const [, entry] = await collect(
+      parseLines(parseEvent, log, { renderPath: jsPath }),
+    );
+
+    expect(errorOf(entry)?.message).toBe('number expected at path "[3].at"');
+  });
+
+  test("splits bytes at newlines across chunks", async () => {
+    const bytes = new TextEncoder().encode("1\n2\n3");
+    const chunks = [bytes.slice(0, 1), bytes.slice(1, 3), bytes.slice(3)];
+
+    expect(await collect(parseLines(parseNum, chunks))).toEqual([
+      { line: 1, value: 1 },
+      { line: 2, value: 2 },
+      { line: 3, value: 3 },
+    ]);
+  });
+
+  test("takes strings of an iterable as lines", async () => {
+    async function* lines() {
+      yield "1";
+      yield "2";
+    }
+
+    expect(await collect(parseLines(parseNum, lines()))).toEqual([
+      { line: 1, value: 1 },
+      { line: 2, value: 2 },
+    ]);
+  });
+
+  test("runs async parsers", async () => {
+    const parseId = asyncParser<string>(async (ctx) =>
+      ok(String(ctx.input), ctx),
+    );
+
+    expect(await collect(parseLines(parseId, "1\n2"))).toEqual([
+      { line: 1, value: "1" },
+      { line: 2, value: "2" },
+    ]);
+  });
+});
+
+describe("summarizeLines", () => {
+  test("counts failures by reason", async () => {
+    const summary = await summarizeLines(parseEvent, `${log}\n{"at": "x"}`, {
+      collectErrors: true,
+    });
+
+    expect(summary).toEqual({
+      records: 5,
+      valid: 2,
+      invalid: 3,
+      failures: {
+        "number expected": 2,
+        "property 'type' expected": 1,
+        "invalid JSON, property name expected at line 4, column 26": 1,
+      },
+    });
+  });
+});
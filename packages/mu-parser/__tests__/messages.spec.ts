@@ -0,0 +1,120 @@
+import { test, expect, describe } from "vitest";
+
+import { Parser, runParser } from "../src/parser";
+import {
+  parseField,
+  parseList,
+  parseLit,
+  parseNum,
+  parseShape,
+  parseStr,
+  parseTaggedUnion,
+  tuple,
+  matches,
+  min,
+  exclusiveMax,
+  coerceNum,
+} from "../src/parsers";
+import { fromJsonSchema } from "../src/json-schema";
+import {
+  en,
+  formatErrors,
+  formatWith,
+  jsonPath,
+  jsonPointer,
+  jsPath,
+} from "../src/messages";
+import { ParserErrorInfo } from "../src/parser-error";
+
+const errorsOf = (parser: Parser<unknown, any>, input: unknown) =>
+  runParser(
+    parser,
+    { input, collectErrors: true },
+    (error): ReadonlyArray<ParserErrorInfo> => error.errors,
+  ) as ReadonlyArray<ParserErrorInfo>;
+
+describe("path renderers", () => {
+  const path = ["users", 1, "first name", "a/b~c"];
+
+  test("json pointer", () => {
+    expect(jsonPointer(path)).toBe("/users/1/first name/a~1b~0c");
+    expect(jsonPointer([])).toBe("");
+  });
+
+  test("js path", () => {
+    expect(jsPath(["users", 1, "age"])).toBe("users[1].age");
+    expect(jsPath(path)).toBe('users[1]["first name"]["a/b~c"]');
+    expect(jsPath([0, "id"])).toBe("[0].id");
+    expect(jsPath([])).toBe("");
+  });
+
+  test("json path", () => {
+    expect(jsonPath(["users", 1, "age"])).toBe("$.users[1].age");
+    expect(jsonPath([])).toBe("$");
+  });
+});
+
+describe("message formatting", () => {
+  test("english catalog matches built-in reasons", () => {
+    const failures: Array<[Parser<unknown, any>, unknown]> = [
+      [parseStr, 1],
+      [parseLit("a"), "b"],
+      [parseLit(null), 1],
+      [parseField("a", parseNum), {}],
+      [parseShape({}, { unknownKeys: "strict" }), { a: 1 }],
+      [tuple(parseNum), []],
+      [parseTaggedUnion("type", { a: parseStr }), { type: "b" }],
+      [parseStr.andThen(matches(/^a+$/i)), "b"],
+      [parseNum.andThen(min(1)), 0],
+      [parseNum.andThen(exclusiveMax(1)), 1],
+      [coerceNum, "x"],
+      [fromJsonSchema({ enum: [1, "a"] }), 2],
+      [fromJsonSchema({ const: true }), 2],
+      [fromJsonSchema(false), 2],
+    ];
+
+    for (const [parser, input] of failures) {
+      for (const error of errorsOf(parser, input)) {
+        expect(error.code).toBeDefined();
+        expect(en.messages[error.code as string]?.(error)).toBe(error.reason);
+      }
+    }
+  });
+
+  test("runParser uses the given formatter and path renderer", () => {
+    const de = formatWith({
+      messages: {
+        ...en.messages,
+        invalid_type: ({ expected }) =>
+          `${expected === "number" ? "Zahl" : expected} erwartet`,
+      },
+      atPath: (message, path) => `${message} bei "${path}"`,
+    });
+    const parser = parseField("users", parseList(parseField("age", parseNum)));
+    const run = () =>
+      runParser(parser, {
+        input: { users: [{ age: 1 }, { age: "2" }] },
+        formatMessage: de,
+        renderPath: jsPath,
+      });
+
+    expect(run).toThrow('Zahl erwartet bei "users[1].age"');
+  });
+
+  test("falls back to reason for unknown codes", () => {
+    const format = formatWith({ messages: {}, atPath: (message) => message });
+
+    expect(
+      formatErrors(errorsOf(parseStr, 1), { formatMessage: format }),
+    ).toEqual(["string expected"]);
+    expect(formatErrors(errorsOf(parseField("a", parseStr), { a: 1 }))).toEqual(
+      ['string expected at path "/a"'],
+    );
+    expect(
+      formatErrors([
+        { reason: "taken", path: ["name"], code: "constructor" },
+        { reason: "too short", path: [], code: "toString" },
+      ]),
+    ).toEqual(['taken at path "/name"', 'too short at path ""']);
+  });
+});
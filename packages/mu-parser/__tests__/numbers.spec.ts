@@ -0,0 +1,139 @@
+import { test, expect, describe } from "vitest";
+
+import {
+  parseField,
+  parseList,
+  parseNum,
+  integer,
+  safeInteger,
+  finite,
+  min,
+  max,
+  exclusiveMin,
+  exclusiveMax,
+  multipleOf,
+  positive,
+  negative,
+  coerceNum,
+  coerceBigInt,
+} from "../src/parsers";
+import { fromJsonSchema, toJsonSchema } from "../src/json-schema";
+import { check } from "./helpers";
+
+describe("numeric refinements", () => {
+  test("integer, safe integer and finite", () => {
+    expect(check(parseNum.andThen(integer), 3)).toBe(3);
+    expect(check(parseNum.andThen(integer), 3.5)).toEqual({
+      reason: "integer expected",
+      code: "not_integer",
+      params: {},
+      path: [],
+    });
+    expect(check(parseNum.andThen(safeInteger), 2 ** 53)).toMatchObject({
+      code: "not_safe_integer",
+    });
+    expect(check(parseNum.andThen(finite), Infinity)).toMatchObject({
+      code: "not_finite",
+    });
+  });
+
+  test("ranges", () => {
+    const range = parseNum.andThen(min(1)).andThen(max(10));
+
+    expect(check(range, 1)).toBe(1);
+    expect(check(range, 10)).toBe(10);
+    expect(check(range, 0)).toEqual({
+      reason: "number greater than or equal to 1 expected",
+      code: "too_small",
+      params: { min: 1, inclusive: true },
+      path: [],
+    });
+    expect(check(range, 11)).toMatchObject({
+      code: "too_big",
+      params: { max: 10, inclusive: true },
+    });
+
+    const exclusive = parseNum
+      .andThen(exclusiveMin(0))
+      .andThen(exclusiveMax(1));
+    expect(check(exclusive, 0.5)).toBe(0.5);
+    expect(check(exclusive, 0)).toMatchObject({ code: "too_small" });
+    expect(check(exclusive, 1)).toMatchObject({ code: "too_big" });
+  });
+
+  test("multipleOf, positive and negative", () => {
+    expect(check(parseNum.andThen(multipleOf(0.5)), 1.5)).toBe(1.5);
+    expect(check(parseNum.andThen(multipleOf(0.1)), 0.3)).toBe(0.3);
+    expect(check(parseNum.andThen(multipleOf(0.01)), 1.15)).toBe(1.15);
+    expect(check(parseNum.andThen(multipleOf(0.1)), 0.35)).toMatchObject({
+      code: "not_multiple_of",
+    });
+    expect(check(parseNum.andThen(multipleOf(2)), 0)).toBe(0);
+    expect(check(parseNum.andThen(multipleOf(2)), 3)).toMatchObject({
+      code: "not_multiple_of",
+      params: { divisor: 2 },
+    });
+    expect(check(parseNum.andThen(positive), 0)).toMatchObject({
+      code: "not_positive",
+    });
+    expect(check(parseNum.andThen(negative), 0)).toMatchObject({
+      code: "not_negative",
+    });
+  });
+
+  test("error path", () => {
+    expect(
+      check(parseField("ages", parseList(parseNum.andThen(integer))), {
+        ages: [1, 2.5],
+      }),
+    ).toMatchObject({ code: "not_integer", path: ["ages", 1] });
+  });
+
+  test("json schema", () => {
+    expect(
+      toJsonSchema(
+        parseNum.andThen(integer).andThen(min(0)).andThen(exclusiveMax(100)),
+      ),
+    ).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "integer",
+      minimum: 0,
+      exclusiveMaximum: 100,
+    });
+    expect(toJsonSchema(fromJsonSchema({ type: "integer" }))).toMatchObject({
+      anyOf: [{ type: "integer" }],
+    });
+  });
+});
+
+describe("numeric coercion", () => {
+  test("coerceNum", () => {
+    expect(check(coerceNum, 4)).toBe(4);
+    expect(check(coerceNum, " -1.5e3 ")).toBe(-1500);
+    expect(check(coerceNum, ".5")).toBe(0.5);
+    expect(check(coerceNum, "")).toMatchObject({
+      code: "invalid_numeric_string",
+    });
+    expect(check(coerceNum, "0x10")).toMatchObject({
+      code: "invalid_numeric_string",
+    });
+    expect(check(coerceNum, true)).toMatchObject({ code: "invalid_type" });
+    expect(check(coerceNum.andThen(integer), "1.5")).toMatchObject({
+      code: "not_integer",
+    });
+  });
+
+  test("coerceBigInt", () => {
+    expect(check(coerceBigInt, 10n)).toBe(10n);
+    expect(check(coerceBigInt, 10)).toBe(10n);
+    expect(check(coerceBigInt, "9007199254740993")).toBe(9007199254740993n);
+    expect(check(coerceBigInt, 1.5)).toMatchObject({ code: "not_integer" });
+    expect(check(coerceBigInt, "1.5")).toMatchObject({
+      code: "invalid_integer_string",
+    });
+    expect(check(parseField("id", coerceBigInt), { id: null })).toMatchObject({
+      code: "invalid_type",
+      path: ["id"],
+    });
+  });
+});
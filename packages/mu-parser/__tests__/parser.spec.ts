@@ -9,6 +9,9 @@ import {
   withState,
   updateState,
   getState,
+  lazy,
+  parser,
+  Parser,
 } from "../src/parser";
 import {
   parseStr,
@@ -18,7 +21,15 @@ import {
   parseList,
   parseField,
   parseNull,
+  oneOf,
+  tuple,
+  record,
+  parseTaggedUnion,
+  parseShape,
+  optional,
 } from "../src/parsers";
+import { ValidationError } from "../src/parser-error";
+import { ok } from "../src/parser-result";
 
 test("parser simple", () => {
   expect(runParser(parseStr, { input: "hello" })).toBe("hello");
@@ -241,7 +252,305 @@ test("parser errors", () => {
   ).toEqual(["property 'Symbol(symField)' expected", []]);
 });
 
+test("exceptions are not parse failures", () => {
+  const bug = parseNum.map((): number => {
+    throw new TypeError("bug");
+  });
+
+  expect(() => runParser(bug.orElse(success(0)), { input: 1 })).toThrow(
+    TypeError,
+  );
+  expect(runParser(bug.orElse(success(0)), { input: "1" })).toBe(0);
+});
+
+describe("utility combinators", () => {
+  test("oneOf", () => {
+    const parser = oneOf(parseStr, parseNum, parseLit(null));
+    const result: string | number | null = runParser(parser, { input: 42 });
+
+    expect(result).toBe(42);
+    expect(runParser(parser, { input: null })).toBe(null);
+    expect(
+      runParser(parser, { input: true }, (error) => error.errors),
+    ).toMatchObject([
+      { reason: "string expected", path: [] },
+      { reason: "number expected", path: [] },
+      { reason: `expected value "null"`, path: [] },
+    ]);
+  });
+
+  test("tuple", () => {
+    const parser = tuple(parseStr, parseNum, parseLit("end"));
+    const result: [string, number, "end"] = runParser(parser, {
+      input: ["a", 1, "end"],
+    });
+
+    expect(result).toEqual(["a", 1, "end"]);
+    expect(
+      runParser(parser, { input: ["a", "b", "end"] }, (error) => [
+        error.reason,
+        error.path,
+      ]),
+    ).toEqual(["number expected", [1]]);
+    expect(
+      runParser(parser, { input: ["a", 1] }, (error) => [
+        error.reason,
+        error.path,
+      ]),
+    ).toEqual(["array of length 3 expected", []]);
+    expect(
+      runParser(parser, { input: {} }, (error) => [error.reason, error.path]),
+    ).toEqual(["array expected", []]);
+  });
+
+  test("record", () => {
+    const parser = record(oneOf(parseLit("a"), parseLit("b")), parseNum);
+    const result: Record<"a" | "b", number> = runParser(parser, {
+      input: { a: 1, b: 2 },
+    });
+
+    expect(result).toEqual({ a: 1, b: 2 });
+    expect(
+      runParser(parser, { input: { a: 1, b: "2" } }, (error) => [
+        error.reason,
+        error.path,
+      ]),
+    ).toEqual(["number expected", ["b"]]);
+    expect(
+      runParser(parser, { input: { a: 1, c: 3 } }, (error) =>
+        error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([["c"], ["c"]]);
+    expect(
+      runParser(parser, { input: [] }, (error) => [error.reason, error.path]),
+    ).toEqual(["object expected", []]);
+  });
+
+  test("record keeps __proto__ an own key", () => {
+    const result = runParser(record(parseStr, parseObj), {
+      input: JSON.parse('{"__proto__":{"isAdmin":true}}'),
+    });
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.hasOwn(result, "__proto__")).toBe(true);
+    expect((result as Record<string, unknown>).isAdmin).toBeUndefined();
+  });
+});
+
+describe("tagged union", () => {
+  const parseEvent = parseTaggedUnion("type", {
+    click: combine((bind) => ({
+      type: bind(parseField("type", parseLit("click"))),
+      x: bind(parseField("x", parseNum)),
+    })),
+    scroll: combine((bind) => ({
+      type: bind(parseField("type", parseLit("scroll"))),
+      delta: bind(parseField("delta", parseNum)),
+    })),
+  });
+
+  test("dispatches on tag", () => {
+    const result: Array<
+      { type: "click"; x: number } | { type: "scroll"; delta: number }
+    > = runParser(parseList(parseEvent), {
+      input: [
+        { type: "click", x: 1 },
+        { type: "scroll", delta: 2 },
+      ],
+    });
+
+    expect(result).toEqual([
+      { type: "click", x: 1 },
+      { type: "scroll", delta: 2 },
+    ]);
+  });
+
+  test("reports the chosen branch failure", () => {
+    expect(
+      runParser(
+        parseEvent,
+        { input: { type: "scroll", x: 1 } },
+        (error) => error.errors,
+      ),
+    ).toMatchObject([{ reason: "property 'delta' expected", path: [] }]);
+  });
+
+  test("reports unknown tag at the tag path", () => {
+    expect(
+      runParser(
+        parseField("event", parseEvent),
+        { input: { event: { type: "hover" } } },
+        (error) => [error.reason, error.path],
+      ),
+    ).toEqual([
+      "unknown tag 'hover', expected one of 'click', 'scroll'",
+      ["event", "type"],
+    ]);
+    expect(
+      runParser(parseEvent, { input: {} }, (error) => [
+        error.reason,
+        error.path,
+      ]),
+    ).toEqual(["property 'type' expected", []]);
+  });
+
+  test("dispatches numeric tags by name", () => {
+    const parseConfig = parseTaggedUnion("version", {
+      1: parseShape({ version: parseLit(1), name: parseStr }),
+      2: parseShape({ version: parseLit(2), title: parseStr }),
+    });
+
+    expect(
+      runParser(parseConfig, { input: { version: 1, name: "a" } }),
+    ).toEqual({ version: 1, name: "a" });
+    expect(
+      runParser(
+        parseConfig,
+        { input: { version: 3 } },
+        (error) => error.reason,
+      ),
+    ).toBe("unknown tag '3', expected one of '1', '2'");
+  });
+});
+
+describe("shape parser", () => {
+  const parseUser = parseShape({
+    name: parseStr,
+    age: parseNum,
+    nick: optional(parseStr),
+  });
+
+  test("parses declared keys", () => {
+    const result: { name: string; age: number; nick?: string | undefined } =
+      runParser(parseUser, {
+        input: { name: "Alice", age: 30, nick: "al", extra: true },
+      });
+
+    expect(result).toEqual({ name: "Alice", age: 30, nick: "al" });
+    expect(parseUser.shape.name).toBe(parseStr);
+  });
+
+  test("optional keys", () => {
+    expect(
+      runParser(parseUser, { input: { name: "Alice", age: 30 } }),
+    ).not.toHaveProperty("nick");
+    expect(
+      runParser(parseUser, {
+        input: { name: "Alice", age: 30, nick: undefined },
+      }),
+    ).toHaveProperty("nick", undefined);
+    expect(
+      runParser(
+        parseUser,
+        { input: { name: "Alice", age: 30, nick: 1 } },
+        (error) => [error.reason, error.path],
+      ),
+    ).toEqual(["string expected", ["nick"]]);
+  });
+
+  test("reports field paths", () => {
+    expect(
+      runParser(
+        parseShape({ user: parseUser }),
+        { input: { user: { name: 1 } }, collectErrors: true },
+        (error) => error.errors,
+      ),
+    ).toMatchObject([
+      { reason: "string expected", path: ["user", "name"] },
+      { reason: "property 'age' expected", path: ["user"] },
+    ]);
+    expect(
+      runParser(parseUser, { input: "Alice" }, (error) => error.reason),
+    ).toEqual("object expected");
+  });
+
+  test("unknown keys", () => {
+    const input = { name: "Alice", age: 30, extra: true };
+
+    expect(
+      runParser(parseShape(parseUser.shape, { unknownKeys: "passthrough" }), {
+        input,
+      }),
+    ).toEqual(input);
+    expect(
+      runParser(
+        parseShape(parseUser.shape, { unknownKeys: "strict" }),
+        { input },
+        (error) => [error.reason, error.path],
+      ),
+    ).toEqual(["unexpected property 'extra'", ["extra"]]);
+  });
+
+  test("passthrough keeps __proto__ an own key", () => {
+    const result = runParser(
+      parseShape({ name: parseStr }, { unknownKeys: "passthrough" }),
+      { input: JSON.parse('{"name":"Alice","__proto__":{"isAdmin":true}}') },
+    );
+
+    expect(Object.hasOwn(result, "__proto__")).toBe(true);
+    expect(result.isAdmin).toBeUndefined();
+  });
+
+  test("inherited properties are missing", () => {
+    const missing = (parser: Parser<unknown, void>) =>
+      runParser(parser, { input: {} }, (error) => error.reason);
+
+    expect(missing(parseShape({ constructor: parseStr }))).toBe(
+      "property 'constructor' expected",
+    );
+    expect(missing(parseField("toString", parseStr))).toBe(
+      "property 'toString' expected",
+    );
+    expect(
+      runParser(parseShape({ constructor: optional(parseStr) }), {
+        input: {},
+      }),
+    ).toEqual({});
+  });
+});
+
 describe("recursive parsers", () => {
+  interface Comment {
+    text: string;
+    replies: Comment[];
+  }
+
+  test("lazy", () => {
+    const parseComment: Parser<Comment, any> = lazy(() =>
+      parseShape({ text: parseStr, replies: parseList(parseComment) }),
+    );
+
+    const input = {
+      text: "a",
+      replies: [{ text: "b", replies: [{ text: "c", replies: [] }] }],
+    };
+
+    expect(runParser(parseComment, { input })).toEqual(input);
+    expect(
+      runParser(
+        parseComment,
+        { input: { text: "a", replies: [{ text: 1, replies: [] }] } },
+        (error) => [error.reason, error.path],
+      ),
+    ).toEqual(["string expected", ["replies", 0, "text"]]);
+  });
+
+  test("lazy with combine and circular input", () => {
+    const parseComment: Parser<Comment, void> = lazy(() =>
+      combine((bind) => ({
+        text: bind(parseField("text", parseStr)),
+        replies: bind(parseField("replies", parseList(parseComment))),
+      })),
+    );
+
+    const input: Comment = { text: "a", replies: [] };
+    input.replies.push({ text: "b", replies: [input] });
+
+    expect(
+      runParser(parseComment, { input }, (error) => [error.reason, error.path]),
+    ).toEqual(["circular reference detected", ["replies", 0, "replies", 0]]);
+  });
+
   test("deep", () => {
     interface Recursive {
       value: string;
@@ -299,6 +608,18 @@ describe("recursive parsers", () => {
       b: { foo: "bar" },
     });
   });
+
+  test("only objects are visited", () => {
+    const isVisited = parser((ctx) => ok(ctx.visited.has(ctx.input), ctx));
+    const parseVisited = parseShape({ value: isVisited });
+
+    expect(runParser(parseVisited, { input: { value: {} } })).toEqual({
+      value: true,
+    });
+    expect(runParser(parseVisited, { input: { value: "a" } })).toEqual({
+      value: false,
+    });
+  });
 });
 
 test("union parser", () => {
@@ -377,4 +698,312 @@ describe("user state", () => {
     expect(result).toEqual(undefined);
     expect(entries).toEqual(["string expected at: []"]);
   });
+
+  const withCounter = withState<number>(combine);
+  const count = <T>(parser: Parser<T, number>) =>
+    withCounter((bind) => {
+      const value = bind(parser);
+      bind(updateState((n) => n + 1));
+      return value;
+    });
+
+  test("nested fields and list items", () => {
+    const parseNode = withCounter((bind) => {
+      const name = bind(parseField("name", count(parseStr)));
+      const tags = bind(parseField("tags", parseList(count(parseStr))));
+      const total = bind(getState());
+      return { name, tags, total };
+    });
+
+    expect(
+      runParser(parseNode, {
+        input: { name: "root", tags: ["a", "b"] },
+        initialState: 0,
+      }),
+    ).toEqual({ name: "root", tags: ["a", "b"], total: 3 });
+  });
+
+  test("scopes path but not state", () => {
+    const parsePathAndState = withCounter((bind) => {
+      const inner = bind(
+        parseField("a", parseField("b", count(combine((bind) => bind(path))))),
+      );
+      const outer = bind(path);
+      const total = bind(getState());
+      return { inner, outer, total };
+    });
+
+    expect(
+      runParser(parsePathAndState, {
+        input: { a: { b: 1 } },
+        initialState: 0,
+      }),
+    ).toEqual({ inner: ["a", "b"], outer: [], total: 1 });
+  });
+
+  test("built-in combinators", () => {
+    const parseAll = withCounter((bind) => {
+      bind(tuple(count(parseStr), count(parseNum)));
+      return bind(getState());
+    });
+
+    expect(runParser(parseAll, { input: ["a", 1], initialState: 0 })).toEqual(
+      2,
+    );
+
+    expect(
+      runParser(
+        record(count(parseStr), count(parseNum)).andThen(() => getState()),
+        { input: { a: 1, b: 2 }, initialState: 0 },
+      ),
+    ).toEqual(4);
+
+    expect(
+      runParser(
+        parseShape({
+          a: count(parseNum),
+          b: optional(count(parseNum)),
+          c: optional(count(parseNum)),
+        }).andThen(() => getState()),
+        { input: { a: 1, b: 2 }, initialState: 0 },
+      ),
+    ).toEqual(2);
+
+    expect(
+      runParser(
+        parseTaggedUnion("type", {
+          x: parseField("value", count(parseNum)),
+        }).andThen(() => getState()),
+        { input: { type: "x", value: 1 }, initialState: 0 },
+      ),
+    ).toEqual(1);
+  });
+
+  test("failed alternatives do not leak state", () => {
+    expect(
+      runParser(
+        oneOf(
+          withCounter((bind) => bind(count(parseStr)) && bind(fail("nope"))),
+          count(parseStr).map(() => "second"),
+        ).andThen(() => getState()),
+        { input: "a", initialState: 0 },
+      ),
+    ).toEqual(1);
+  });
+});
+
+describe("error collecting", () => {
+  const parseUser = combine((bind) => {
+    const name = bind(parseField("name", parseStr));
+    const age = bind(parseField("age", parseNum));
+    const tags = bind(parseField("tags", parseList(parseStr)));
+    return { name, age, tags };
+  });
+
+  test("reports every failure", () => {
+    expect(
+      runParser(
+        parseList(parseUser),
+        {
+          input: [
+            { name: "Alice", age: 30, tags: [] },
+            { name: 1, tags: ["a", 2, "c", 4] },
+          ],
+          collectErrors: true,
+        },
+        (error) => error.errors,
+      ),
+    ).toMatchObject([
+      { reason: "string expected", path: [1, "name"] },
+      { reason: "property 'age' expected", path: [1] },
+      { reason: "string expected", path: [1, "tags", 1] },
+      { reason: "string expected", path: [1, "tags", 3] },
+    ]);
+  });
+
+  test("stops at the first failure by default", () => {
+    expect(
+      runParser(
+        parseUser,
+        { input: { name: 1, tags: [2] } },
+        (error) => error.errors,
+      ),
+    ).toMatchObject([{ reason: "string expected", path: ["name"] }]);
+  });
+
+  test("throws aggregate error", () => {
+    const run = () =>
+      runParser(parseUser, {
+        input: { name: 1, age: 2, tags: "a" },
+        collectErrors: true,
+      });
+
+    expect(run).toThrow(ValidationError);
+    expect(run).toThrow(
+      `string expected at path "/name"\narray expected at path "/tags"`,
+    );
+  });
+
+  test("recovers from collected errors", () => {
+    expect(
+      runParser(parseUser.optional, {
+        input: { name: 1, age: "2", tags: [] },
+        collectErrors: true,
+      }),
+    ).toBe(undefined);
+  });
+
+  test("reports collected errors when block fails on placeholders", () => {
+    const parseLength = combine((bind) => {
+      const name = bind(parseField("name", parseStr));
+      const count = bind(parseField("count", parseNum));
+      return name.length * count;
+    });
+
+    expect(
+      runParser(
+        parseLength,
+        { input: { name: null, count: null }, collectErrors: true },
+        (error) => error.errors.map(({ path }) => path),
+      ),
+    ).toEqual([["name"], ["count"]]);
+  });
+
+  test("skips binds after a failed one by default", () => {
+    let runs = 0;
+    const counted = parseNum.map((value) => {
+      runs++;
+      return value;
+    });
+    const parsePair = combine((bind) => [
+      bind(parseField("a", counted)),
+      bind(parseField("b", counted)),
+    ]);
+
+    expect(
+      runParser(parsePair, { input: { a: "1", b: 2 } }, (error) => error.path),
+    ).toEqual(["a"]);
+    expect(runs).toBe(0);
+  });
+
+  test("rethrows errors thrown while no bind has failed", () => {
+    const parseName = combine((bind) => {
+      const name = bind(parseField("name", parseStr));
+      throw new TypeError(`unexpected ${name}`);
+    });
+
+    expect(() =>
+      runParser(parseName, { input: { name: "a" }, collectErrors: true }),
+    ).toThrow(TypeError);
+  });
+});
+
+describe("structured errors", () => {
+  const details = <T>(parser: Parser<T, any>, input: unknown) =>
+    runParser(
+      parser,
+      { input },
+      ({ code, expected, received, params, path }) => ({
+        code,
+        expected,
+        received,
+        params,
+        path,
+      }),
+    );
+
+  test("type mismatches", () => {
+    expect(details(parseStr, 1)).toEqual({
+      code: "invalid_type",
+      expected: "string",
+      received: "number",
+      params: undefined,
+      path: [],
+    });
+    expect(details(parseNum, null)).toMatchObject({ received: "null" });
+    expect(details(parseObj, "x")).toMatchObject({ expected: "object" });
+    expect(details(parseList(parseStr), {})).toMatchObject({
+      expected: "array",
+      received: "object",
+    });
+    expect(details(parseLit("a"), "b")).toMatchObject({
+      code: "invalid_literal",
+      expected: '"a"',
+      received: '"b"',
+      params: { value: "a" },
+    });
+  });
+
+  test("objects and arrays", () => {
+    expect(details(parseField("name", parseStr), {})).toMatchObject({
+      code: "missing_property",
+      params: { property: "name" },
+    });
+    expect(details(parseField("name", parseStr), "x")).toMatchObject({
+      code: "invalid_type",
+      received: "string",
+    });
+    expect(details(tuple(parseStr, parseStr), ["a"])).toMatchObject({
+      code: "invalid_length",
+      expected: "array of length 2",
+      received: "array of length 1",
+    });
+    expect(
+      details(parseShape({ a: parseNum }, { unknownKeys: "strict" }), {
+        a: 1,
+        b: 2,
+      }),
+    ).toMatchObject({
+      code: "unrecognized_property",
+      params: { property: "b" },
+      path: ["b"],
+    });
+    expect(
+      details(parseTaggedUnion("type", { a: parseObj }), { type: "b" }),
+    ).toMatchObject({
+      code: "invalid_tag",
+      received: '"b"',
+      params: { tag: "type", options: ["a"] },
+      path: ["type"],
+    });
+  });
+
+  test("circular references", () => {
+    type Node = { next?: Node };
+    const parseNode: Parser<Node, any> = lazy(() =>
+      parseShape({ next: optional(parseNode) }),
+    );
+    const node: Node = {};
+    node.next = node;
+
+    expect(details(parseNode, node)).toMatchObject({
+      code: "circular_reference",
+      path: ["next"],
+    });
+  });
+
+  test("custom failures", () => {
+    expect(
+      details(
+        parseField(
+          "age",
+          parseNum.andThen((age) =>
+            age >= 18
+              ? success(age)
+              : fail("adult expected", {
+                  code: "too_young",
+                  params: { min: 18 },
+                }),
+          ),
+        ),
+        { age: 12 },
+      ),
+    ).toEqual({
+      code: "too_young",
+      expected: undefined,
+      received: undefined,
+      params: { min: 18 },
+      path: ["age"],
+    });
+  });
 });
@@ -0,0 +1,162 @@
+import { test, expect, describe } from "vitest";
+
+import { runParser } from "../src/parser";
+import { ValidationError } from "../src/parser-error";
+import {
+  coerceBoolean,
+  coerceDate,
+  coerceList,
+  coerceNum,
+  integer,
+  optional,
+  parseInstanceOf,
+  parseObj,
+  parseShape,
+  parseStr,
+} from "../src/parsers";
+import { parseQuery, queryKey, readQuery } from "../src/query";
+
+const decode = (input: unknown) =>
+  runParser(parseQuery(parseObj), { input }, (error) => error);
+
+describe("parseQuery", () => {
+  test("nests bracketed keys", () => {
+    expect(
+      decode("?a[b][c]=1&a[b][d]=2&list[]=x&list[]=y&idx[1]=b&idx[0]=a"),
+    ).toEqual({
+      a: { b: { c: "1", d: "2" } },
+      list: ["x", "y"],
+      idx: ["a", "b"],
+    });
+  });
+
+  test("collects repeated keys and keeps malformed keys as they are", () => {
+    expect(decode("tag=a&tag=b&tag=c&a[b=1&q=x+y%21")).toEqual({
+      tag: ["a", "b", "c"],
+      "a[b": "1",
+      q: "x y!",
+    });
+  });
+
+  test("builds arrays of objects and mixed keys", () => {
+    expect(
+      decode("items[0][id]=1&items[1][id]=2&items[0][qty]=3&m[0]=a&m[x]=b"),
+    ).toEqual({
+      items: [{ id: "1", qty: "3" }, { id: "2" }],
+      m: { 0: "a", x: "b" },
+    });
+  });
+
+  test("keeps __proto__ an own key", () => {
+    const decoded = decode("__proto__[polluted]=1") as Record<string, unknown>;
+
+    expect(Object.hasOwn(decoded, "__proto__")).toBe(true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test("reads URLSearchParams and FormData", () => {
+    const file = new File(["hi"], "hi.txt");
+    const form = new FormData();
+    form.append("user[name]", "Ann");
+    form.append("user[avatar]", file);
+
+    expect(decode(new URLSearchParams({ "a[0]": "1" }))).toEqual({ a: ["1"] });
+    expect(
+      runParser(
+        parseQuery(
+          parseShape({
+            user: parseShape({
+              name: parseStr,
+              avatar: parseInstanceOf(File),
+            }),
+          }),
+        ),
+        { input: form },
+      ),
+    ).toEqual({ user: { name: "Ann", avatar: file } });
+  });
+
+  test("fails on a key given both a value and nested keys", () => {
+    expect(decode("a[b]=1&a[b][c]=2")).toMatchObject({
+      code: "conflicting_query_key",
+      path: ["a", "b"],
+      params: { key: "a[b][c]" },
+    });
+    expect(decode("a[b][c]=2&a[b]=1")).toMatchObject({ path: ["a", "b"] });
+    expect(decode(42)).toMatchObject({ code: "invalid_type" });
+  });
+});
+
+const searchParser = parseShape({
+  q: parseStr,
+  page: optional(coerceNum.andThen(integer)),
+  exact: optional(coerceBoolean),
+  since: optional(coerceDate),
+  filter: optional(
+    parseShape({
+      tags: coerceList(parseStr),
+      price: optional(parseShape({ min: coerceNum, max: coerceNum })),
+    }),
+  ),
+});
+
+describe("readQuery", () => {
+  test("coerces values of nested keys", () => {
+    expect(
+      readQuery(
+        searchParser,
+        "q=shoes&page=2&exact=on&since=2024-05-01&filter[tags][]=red&filter[tags][]=blue&filter[price][min]=10&filter[price][max]=99.5",
+      ),
+    ).toEqual({
+      q: "shoes",
+      page: 2,
+      exact: true,
+      since: new Date("2024-05-01T00:00:00Z"),
+      filter: { tags: ["red", "blue"], price: { min: 10, max: 99.5 } },
+    });
+    expect(
+      readQuery(searchParser, "q=a&filter[tags]=red,blue").filter?.tags,
+    ).toEqual(["red", "blue"]);
+  });
+
+  test("reports every error at the key it was given at", () => {
+    let error: ValidationError | undefined;
+    try {
+      readQuery(
+        searchParser,
+        "page=1.5&since=yesterday&filter[tags][]=a&filter[price][min]=cheap&filter[price][max]=1",
+      );
+    } catch (e) {
+      error = e as ValidationError;
+    }
+
+    expect(error?.message).toBe(
+      [
+        `property 'q' expected at path ""`,
+        'integer expected at path "page"',
+        'ISO 8601 date or date-time expected at path "since"',
+        'numeric string expected at path "filter[price][min]"',
+      ].join("\n"),
+    );
+  });
+
+  test("queryKey", () => {
+    expect(queryKey(["filter", "tags", 0])).toBe("filter[tags][0]");
+    expect(queryKey([])).toBe("");
+  });
+});
+
+describe("coerceDate", () => {
+  test("accepts ISO dates and date-times", () => {
+    expect(
+      ["2024-02-29", "2024-02-29T12:30:00+02:00"].map((input) =>
+        runParser(coerceDate, { input }).toISOString(),
+      ),
+    ).toEqual(["2024-02-29T00:00:00.000Z", "2024-02-29T10:30:00.000Z"]);
+    expect(
+      ["2023-02-29", new Date(NaN), 0].map((input) =>
+        runParser(coerceDate, { input }, (error) => error.code),
+      ),
+    ).toEqual(["invalid_date_string", "invalid_date_value", "invalid_type"]);
+  });
+});
@@ -0,0 +1,116 @@
+import { test, expect, describe } from "vitest";
+
+import { Parser } from "../src/parser";
+import {
+  parseField,
+  parseStr,
+  minLength,
+  maxLength,
+  matches,
+  trimmed,
+  email,
+  uuid,
+  url,
+  isoDate,
+  isoDateTime,
+  base64,
+} from "../src/parsers";
+import { toJsonSchema } from "../src/json-schema";
+import { check } from "./helpers";
+
+describe("string refinements", () => {
+  test("length", () => {
+    const parser = parseStr.andThen(minLength(2)).andThen(maxLength(4));
+
+    expect(check(parser, "abc")).toBe("abc");
+    expect(check(parser, "a")).toEqual({
+      reason: "string of at least 2 characters expected",
+      code: "too_short",
+      params: { min: 2 },
+      path: [],
+    });
+    expect(check(parser, "abcde")).toMatchObject({
+      code: "too_long",
+      params: { max: 4 },
+    });
+    expect(check(parser, 1)).toMatchObject({ reason: "string expected" });
+  });
+
+  test("pattern and trimmed", () => {
+    expect(check(parseStr.andThen(matches(/^[a-z]+$/)), "abc")).toBe("abc");
+    expect(check(parseStr.andThen(matches(/^[a-z]+$/)), "ab1")).toEqual({
+      reason: "string matching /^[a-z]+$/ expected",
+      code: "invalid_pattern",
+      params: { pattern: "^[a-z]+$", flags: "" },
+      path: [],
+    });
+    expect(check(parseStr.andThen(trimmed), " a")).toMatchObject({
+      code: "not_trimmed",
+    });
+  });
+
+  test("formats", () => {
+    const cases: Array<[Parser<string, any>, string, string, string]> = [
+      [parseStr.andThen(email), "a@b.co", "a@b", "invalid_email"],
+      [
+        parseStr.andThen(uuid),
+        "123e4567-e89b-12d3-a456-426614174000",
+        "123e4567",
+        "invalid_uuid",
+      ],
+      [
+        parseStr.andThen(url),
+        "https://example.com/a?b",
+        "example",
+        "invalid_url",
+      ],
+      [parseStr.andThen(isoDate), "2024-02-29", "2023-02-29", "invalid_date"],
+      [
+        parseStr.andThen(isoDateTime),
+        "2024-02-29T10:20:30.123+02:00",
+        "2024-02-29T24:00:00Z",
+        "invalid_datetime",
+      ],
+      [parseStr.andThen(base64), "aGVsbG8=", "aGVsbG8", "invalid_base64"],
+    ];
+
+    for (const [parser, valid, invalid, code] of cases) {
+      expect(check(parser, valid)).toBe(valid);
+      expect(check(parser, invalid)).toMatchObject({ code });
+    }
+  });
+
+  test("dates in the first century", () => {
+    expect(check(parseStr.andThen(isoDate), "0050-01-01")).toBe("0050-01-01");
+    expect(check(parseStr.andThen(isoDate), "0000-02-29")).toBe("0000-02-29");
+    expect(check(parseStr.andThen(isoDate), "0099-02-29")).toMatchObject({
+      code: "invalid_date",
+    });
+    expect(check(parseStr.andThen(isoDateTime), "0099-01-01T00:00:00Z")).toBe(
+      "0099-01-01T00:00:00Z",
+    );
+  });
+
+  test("error path", () => {
+    expect(
+      check(parseField("email", parseStr.andThen(email)), { email: "x" }),
+    ).toMatchObject({ code: "invalid_email", path: ["email"] });
+  });
+
+  test("json schema", () => {
+    expect(toJsonSchema(parseStr.andThen(minLength(1)).andThen(email))).toEqual(
+      {
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "string",
+        minLength: 1,
+        format: "email",
+      },
+    );
+    expect(toJsonSchema(parseStr.andThen(matches(/^a+$/u)))).toMatchObject({
+      pattern: "^a+$",
+    });
+    expect(toJsonSchema(parseStr.andThen(matches(/^a+$/i)))).not.toHaveProperty(
+      "pattern",
+    );
+  });
+});
@@ -0,0 +1,130 @@
+import { test, expect, describe } from "vitest";
+
+import { runParser } from "../src/parser";
+import { parseList, parseNum, parseShape, parseStr } from "../src/parsers";
+import { withSourceLocations } from "../src/json-source";
+import { parseTomlSource } from "../src/toml";
+import { failure } from "./helpers";
+
+const config = `# service config
+name = "api"
+version = 1.5
+"quoted key" = 'literal \\n'
+site."google.com" = true
+
+[server]
+port = 8_080
+limits = { cpu = 0x10, memory = inf }
+ratio = -3e2
+
+[[services]]
+host = "a"
+port = 80
+
+[[services]]
+host = "b"
+port = "80"
+
+[server.tls]
+dates = [1979-05-27T07:32:00Z, 1979-05-27, 07:32:00]
+`;
+
+describe("parseTomlSource", () => {
+  test("reads tables, arrays of tables and values", () => {
+    expect(parseTomlSource(config).value).toEqual({
+      name: "api",
+      version: 1.5,
+      "quoted key": "literal \\n",
+      site: { "google.com": true },
+      server: {
+        port: 8080,
+        limits: { cpu: 16, memory: Infinity },
+        ratio: -300,
+        tls: {
+          dates: [new Date("1979-05-27T07:32:00Z"), "1979-05-27", "07:32:00"],
+        },
+      },
+      services: [
+        { host: "a", port: 80 },
+        { host: "b", port: "80" },
+      ],
+    });
+  });
+
+  test("reads strings", () => {
+    const text = `basic = "tab\\t\\u263A \\"q\\""
+multi = """
+one \\
+    two ""quoted"""""
+raw = '''
+C:\\path\\'''
+arr = [
+  1, # first
+  2,
+]
+big = 9_223_372_036_854_775_807
+`;
+
+    expect(parseTomlSource(text).value).toEqual({
+      basic: 'tab\t☺ "q"',
+      multi: 'one two ""quoted""',
+      raw: "C:\\path\\",
+      arr: [1, 2],
+      big: 9223372036854775807n,
+    });
+  });
+
+  test("maps errors back to lines and columns", () => {
+    const doc = parseTomlSource(config);
+    const parseConfig = parseShape({
+      services: parseList(parseShape({ host: parseStr, port: parseNum })),
+    });
+
+    expect(doc.locate(["services", 1])).toEqual({ line: 16, column: 1 });
+    expect(doc.locate(["server", "limits", "cpu"])).toEqual({
+      line: 9,
+      column: 18,
+    });
+    expect(
+      failure(() =>
+        runParser(parseConfig, {
+          input: doc.value,
+          ...withSourceLocations(doc, { codeFrame: false }),
+        }),
+      ).message,
+    ).toBe('number expected at path "/services/1/port" (line 18, column 8)');
+  });
+
+  test("reports syntax errors", () => {
+    const errorOf = (text: string) =>
+      failure(() => parseTomlSource(text)).errors[0];
+
+    expect(errorOf("a = 1\na = 2")).toMatchObject({
+      code: "invalid_toml",
+      expected: "new key",
+      received: '"a"',
+      params: { line: 2, column: 1 },
+    });
+    expect(errorOf("[a]\n[a]")).toMatchObject({ expected: "new table" });
+    expect(errorOf("a = {b = 1}\n[a]")).toMatchObject({
+      expected: "new table",
+    });
+    expect(errorOf("a = [1]\n[[a]]")).toMatchObject({
+      expected: "array of tables",
+    });
+    expect(errorOf("a = 01")).toMatchObject({
+      expected: "value",
+      received: '"01"',
+    });
+    expect(errorOf('a = "open\nb = 1')).toMatchObject({
+      expected: `closing '"'`,
+      params: { line: 1, column: 10 },
+    });
+    expect(errorOf("a = 1 b = 2")).toMatchObject({
+      expected: "end of line",
+    });
+    expect(failure(() => parseTomlSource("= 1")).message).toBe(
+      'invalid TOML, key expected at line 1, column 1 at path ""',
+    );
+  });
+});
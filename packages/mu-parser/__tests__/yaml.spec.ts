@@ -0,0 +1,186 @@
+import { test, expect, describe } from "vitest";
+
+import { lazy, runParser } from "../src/parser";
+import {
+  optional,
+  parseList,
+  parseNum,
+  parseShape,
+  parseStr,
+} from "../src/parsers";
+import { withSourceLocations } from "../src/json-source";
+import { parseYamlSource } from "../src/yaml";
+import { failure } from "./helpers";
+
+const config = `# service config
+---
+name: api
+version: 1.5
+enabled: true
+owner: ~
+services:
+  - host: a.example.com  # primary
+    port: 80
+  - host: "b.example.com"
+    port: '80'
+tags: [web, 'public', {tier: 1}]
+limits: {cpu: 0x10, memory: .inf}
+`;
+
+describe("parseYamlSource", () => {
+  test("reads mappings, sequences and scalars", () => {
+    expect(parseYamlSource(config).value).toEqual({
+      name: "api",
+      version: 1.5,
+      enabled: true,
+      owner: null,
+      services: [
+        { host: "a.example.com", port: 80 },
+        { host: "b.example.com", port: "80" },
+      ],
+      tags: ["web", "public", { tier: 1 }],
+      limits: { cpu: 16, memory: Infinity },
+    });
+  });
+
+  test("reads nested and compact collections", () => {
+    const text = `matrix:
+- - 1
+  - 2
+- []
+empty:
+nested:
+  deep:
+    - key: value
+      other: "x: y"
+`;
+
+    expect(parseYamlSource(text).value).toEqual({
+      matrix: [[1, 2], []],
+      empty: null,
+      nested: { deep: [{ key: "value", other: "x: y" }] },
+    });
+  });
+
+  test("reads quoted and block scalars", () => {
+    const text = `double: "tab\\there \\u263A # not a comment"
+single: 'it''s'
+literal: |
+  line 1
+    indented
+
+  line 3
+folded: >-
+  one
+  two
+
+  three
+kept: |+
+  end
+
+`;
+
+    expect(parseYamlSource(text).value).toEqual({
+      double: "tab\there ☺ # not a comment",
+      single: "it's",
+      literal: "line 1\n  indented\n\nline 3\n",
+      folded: "one two\nthree",
+      kept: "end\n\n",
+    });
+  });
+
+  test("shares anchored values with their aliases", () => {
+    const doc = parseYamlSource(`defaults: &defaults
+  port: 80
+primary: *defaults
+backup: *defaults
+`);
+    const value = doc.value as Record<string, unknown>;
+
+    expect(value.primary).toBe(value.defaults);
+    expect(
+      runParser(
+        parseShape({
+          primary: parseShape({ port: parseNum }),
+          backup: parseShape({ port: parseNum }),
+        }),
+        { input: value },
+        () => "failed",
+      ),
+    ).toEqual({ primary: { port: 80 }, backup: { port: 80 } });
+  });
+
+  test("reports aliases that contain their anchor as circular references", () => {
+    interface Node {
+      name: string;
+      next?: Node;
+    }
+    const parseNode: ReturnType<typeof lazy<Node>> = lazy(() =>
+      parseShape({ name: parseStr, next: optional(parseNode) }),
+    );
+    const doc = parseYamlSource(`&node
+name: a
+next:
+  name: b
+  next: *node
+`);
+
+    expect(
+      runParser(parseNode, { input: doc.value }, (error) => [
+        error.code,
+        error.path,
+      ]),
+    ).toEqual(["circular_reference", ["next", "next"]]);
+  });
+
+  test("maps errors back to lines and columns", () => {
+    const doc = parseYamlSource(config);
+    const parseConfig = parseShape({
+      services: parseList(parseShape({ host: parseStr, port: parseNum })),
+    });
+
+    expect(doc.locate(["services", 1, "port"])).toEqual({
+      line: 11,
+      column: 11,
+    });
+    expect(doc.locate(["tags", 2, "tier"])).toEqual({ line: 12, column: 30 });
+    expect(
+      failure(() =>
+        runParser(parseConfig, {
+          input: doc.value,
+          ...withSourceLocations(doc, { codeFrame: false }),
+        }),
+      ).message,
+    ).toBe('number expected at path "/services/1/port" (line 11, column 11)');
+  });
+
+  test("reports syntax errors", () => {
+    const errorOf = (text: string) =>
+      failure(() => parseYamlSource(text)).errors[0];
+
+    expect(errorOf("a: 1\n  b: 2")).toMatchObject({
+      code: "invalid_yaml",
+      expected: "consistent indentation",
+      params: { line: 2, column: 3 },
+    });
+    expect(errorOf("a: 1\na: 2")).toMatchObject({
+      expected: "unique key",
+      received: '"a"',
+    });
+    expect(errorOf("a: *missing")).toMatchObject({
+      expected: "defined anchor",
+    });
+    expect(errorOf('a: "open')).toMatchObject({ expected: 'closing "' });
+    expect(errorOf("a: [1, 2")).toMatchObject({ expected: "',' or ']'" });
+    expect(errorOf("a: b: c")).toMatchObject({ expected: "plain scalar" });
+    expect(errorOf("a: 1\n---\nb: 2")).toMatchObject({
+      expected: "a single document",
+    });
+    expect(errorOf("a:\n\tb: 1")).toMatchObject({
+      expected: "indentation with spaces",
+    });
+    expect(failure(() => parseYamlSource("a: !!str 1")).message).toBe(
+      'invalid YAML, plain scalar expected at line 1, column 4 at path ""',
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  AggregateParserError,
+  ParserError,
+  ParserErrorInfo,
+} from "./parser-error";
+import { RunParserParams, Parser, settle } from "./parser";
+import { failure, ok, ParserResult } from "./parser-result";
+import { ParserState } from "./parser-state";
+
+/**
+ * A parser whose checks may await, such as a database lookup
+ * or a loader resolving a reference. Its combinators accept
+ * sync and async parsers alike.
+ */
+export interface AsyncParser<T, S> {
+  readonly async: true;
+  run(ctx: ParserState<S>): Promise<ParserResult<T, S>>;
+  map<R>(f: (t: T) => R | PromiseLike<R>): AsyncParser<R, S>;
+  andThen<R>(f: (a: T) => AnyParser<R, S>): AsyncParser<R, S>;
+  recover<R>(fn: (err: ParserError) => AnyParser<R, S>): AsyncParser<T | R, S>;
+  orElse<R>(other: AnyParser<R, S>): AsyncParser<T | R, S>;
+  readonly optional: AsyncParser<undefined | T, S>;
+}
+
+export type AnyParser<T, S> = Parser<T, S> | AsyncParser<T, S>;
+
+export const isAsyncParser = <T, S>(
+  parser: AnyParser<T, S>,
+): parser is AsyncParser<T, S> => "async" in parser && parser.async === true;
+
+export const asyncParser = <T, S = any>(
+  run: (st: ParserState<S>) => Promise<ParserResult<T, S>>,
+): AsyncParser<T, S> => {
+  const self: AsyncParser<T, S> = {
+    async: true,
+    run,
+    map: (f) =>
+      asyncParser(async (ctx) => {
+        const res = await run(ctx);
+        return res.success ? ok(await f(res.value), res.state) : res;
+      }),
+    andThen: (f) =>
+      asyncParser(async (st) => {
+        const res = await run(st);
+        return res.success ? f(res.value).run(res.state) : res;
+      }),
+    recover: <R>(fn: (err: ParserError) => AnyParser<R, S>) =>
+      asyncParser<T | R, S>(async (st) => {
+        const res = await run(st);
+        return res.success
+          ? res
+          : fn(AggregateParserError.of(res.errors)).run(st);
+      }),
+    orElse: <R>(other: AnyParser<R, S>) =>
+      asyncParser<T | R, S>(async (st) => {
+        const res = await run(st);
+        return res.success ? res : other.run(st);
+      }),
+    get optional() {
+      return asyncParser<undefined | T, S>(async (st) => {
+        const res = await run(st);
+        return res.success ? res : ok(undefined, st);
+      });
+    },
+  };
+
+  return self;
+};
+
+/**
+ * Lifts a sync parser into an async one. Async parsers are returned as they are.
+ */
+export const liftAsync = <T, S>(parser: AnyParser<T, S>): AsyncParser<T, S> =>
+  isAsyncParser(parser)
+    ? parser
+    : asyncParser((ctx) => Promise.resolve(parser.run(ctx)));
+
+/**
+ * @example
+ * declare const parser: AsyncParser<R, S>
+ * const r: R = await bind(parser)
+ */
+interface AsyncParserBind<S> {
+  <R>(parser: AnyParser<R, S>): Promise<R>;
+}
+
+/**
+ * Async `combine`. Await each `bind` before the next one,
+ * so that user state is threaded from one to the next.
+ * Failed binds are handled as in `combine`.
+ */
+export const combineAsync = <T, S = void>(
+  parsers: (bind: AsyncParserBind<S>) => Promise<T>,
+): AsyncParser<T, S> =>
+  asyncParser(async (state) => {
+    const errors: ParserErrorInfo[] = [];
+    try {
+      const result = await parsers(async (parser) => {
+        if (errors.length > 0 && !state.collectErrors) {
+          return undefined as never;
+        }
+        const res = await parser.run(state);
+        if (res.success) {
+          state = res.state;
+          return res.value;
+        }
+        errors.push(...res.errors);
+        return undefined as never;
+      });
+      return errors.length > 0 ? failure(errors) : ok(result, state);
+    } catch (e) {
+      if (errors.length === 0) {
+        throw e;
+      }
+      // as in `combine`, a crash after a failed bind
+      // most likely comes from the `undefined` it yielded
+      return failure(errors);
+    }
+  });
+
+export function runParserAsync<T>(
+  parser: AnyParser<T, void>,
+  params: RunParserParams,
+): Promise<T>;
+export function runParserAsync<T, S>(
+  parser: AnyParser<T, S>,
+  params: RunParserParams & { initialState: S },
+): Promise<T>;
+export function runParserAsync<T1, T2>(
+  parser: AnyParser<T1, void>,
+  params: RunParserParams,
+  onError: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
+): Promise<T1 | T2>;
+export function runParserAsync<T1, T2, S>(
+  parser: AnyParser<T1, S>,
+  params: RunParserParams & { initialState: S },
+  onError: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
+): Promise<T1 | T2>;
+export async function runParserAsync<T1, T2, S>(
+  parser: AnyParser<T1, S | void>,
+  {
+    input,
+    initialState,
+    collectErrors = false,
+    ...format
+  }: RunParserParams & { initialState?: S },
+  onError?: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
+): Promise<T1 | T2> {
+  return settle(
+    await parser.run(ParserState.empty(input, initialState, collectErrors)),
+    format,
+    onError,
+  );
+}
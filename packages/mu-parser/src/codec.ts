@@ -0,0 +1,47 @@
+import { Parser, parser } from "./parser";
+
+/**
+ * A parser that can also turn what it parsed back into its input form,
+ * so that one definition both validates incoming data
+ * and produces outgoing data.
+ *
+ * `T` is the decoded value, `O` the encoded one.
+ */
+export interface Codec<T, O, S = any> extends Parser<T, S> {
+  /**
+   * `state` is the user state to decode with, for codecs
+   * such as `oneOfCodec` that decode what they encoded.
+   */
+  encode(value: T, state?: S): O;
+}
+
+/**
+ * Pairs a parser with the function that reverses it.
+ *
+ * @example
+ * codec(parseStr.map(Number), String)
+ */
+export const codec = <T, O, S = any>(
+  decode: Parser<T, S>,
+  encode: (value: T, state?: S) => O,
+): Codec<T, O, S> => Object.assign(parser(decode.run, decode.meta), { encode });
+
+/**
+ * A codec for values that are encoded as they are, such as strings and numbers.
+ */
+export const identityCodec = <T, S = any>(
+  decode: Parser<T, S>,
+): Codec<T, T, S> => codec(decode, (value) => value);
+
+/**
+ * Converts the decoded values of `base` to another type and back.
+ *
+ * @example
+ * mapCodec(identityCodec(parseNum), (ms) => new Date(ms), (date) => date.getTime())
+ */
+export const mapCodec = <A, B, O, S = any>(
+  base: Codec<A, O, S>,
+  decode: (value: A) => B,
+  encode: (value: B) => A,
+): Codec<B, O, S> =>
+  codec(base.map(decode), (value, state) => base.encode(encode(value), state));
@@ -0,0 +1,127 @@
+import { FormatOptions, jsPath } from "./messages";
+import { Parser, parser, runParser } from "./parser";
+import { invalidType } from "./parser-error";
+import { err, ok } from "./parser-result";
+import { OptionalField, parseShape, Shape, ShapeValue } from "./parsers/shape";
+import { defineOwn } from "./utils";
+
+export interface ParseEnvOptions<Sp> {
+  /**
+   * Put in front of every key to name its variable, such as `"APP_"`.
+   */
+  readonly prefix?: string;
+  /**
+   * Raw values for missing or empty variables,
+   * parsed the same way as the variables themselves.
+   */
+  readonly defaults?: { readonly [K in keyof Sp]?: string };
+}
+
+export interface ReadEnvOptions<Sp>
+  extends ParseEnvOptions<Sp>,
+    FormatOptions {}
+
+const own = (record: object, key: string): unknown =>
+  Object.hasOwn(record, key)
+    ? (record as Record<string, unknown>)[key]
+    : undefined;
+
+const variable = <S>(
+  name: string,
+  field: Parser<unknown, S>,
+): Parser<unknown, S> =>
+  parser((ctx) => {
+    if (ctx.input !== undefined) {
+      return field.run(ctx);
+    }
+    const res = field.run(ctx.withMissing(true));
+    return res.success && !res.state.missing
+      ? ok(res.value, ctx.withStateOf(res.state))
+      : err("environment variable expected", ctx, {
+          code: "missing_variable",
+          params: { variable: name },
+        });
+  });
+
+/**
+ * Parses a record of environment variables, such as `process.env`,
+ * with a parser per variable, named by its key and the `prefix`.
+ * Variables that are missing or empty, and have no default,
+ * fail with `missing_variable` unless `optional` or filled in by `withDefault`.
+ * Errors are reported at the variable's name; collect them to see
+ * every missing or invalid variable at once, as `readEnv` does.
+ *
+ * @example
+ * parseEnv(
+ *   { PORT: coerceNum, DEBUG: optional(coerceBoolean), HOSTS: coerceList(parseStr) },
+ *   { prefix: "APP_", defaults: { PORT: "8080" } },
+ * )
+ */
+export const parseEnv = <Sp extends Shape<S>, S = any>(
+  spec: Sp,
+  { prefix = "", defaults = {} }: ParseEnvOptions<Sp> = {},
+): Parser<ShapeValue<Sp>, S> => {
+  const keys = Object.keys(spec);
+  const variables: Shape<S> = {};
+  for (const key of keys) {
+    const field = spec[key] as Sp[string];
+    defineOwn(
+      variables,
+      prefix + key,
+      field instanceof OptionalField ? field : variable(prefix + key, field),
+    );
+  }
+  const parseVariables = parseShape<Shape<S>, "strip", S>(variables);
+
+  return parser((ctx) => {
+    const source = ctx.input;
+    if (typeof source !== "object" || source === null) {
+      return err("object expected", ctx, invalidType("object", source));
+    }
+
+    // Empty variables count as missing, and defaults stand in for both;
+    // missing optional ones are left out for `parseShape` to skip.
+    const values = {};
+    for (const key of keys) {
+      const name = prefix + key;
+      const raw = own(source, name);
+      const value = raw === undefined || raw === "" ? own(defaults, key) : raw;
+      if (value !== undefined || !(spec[key] instanceof OptionalField)) {
+        defineOwn(values, name, value);
+      }
+    }
+    const res = parseVariables.run(ctx.withInput(values));
+    if (!res.success) {
+      return res;
+    }
+
+    const result = {};
+    for (const key of keys) {
+      if (Object.hasOwn(res.value, prefix + key)) {
+        defineOwn(result, key, res.value[prefix + key]);
+      }
+    }
+    return ok(result as ShapeValue<Sp>, ctx.withStateOf(res.state));
+  });
+};
+
+/**
+ * Runs `parseEnv` on `source`, throwing a `ValidationError` that lists
+ * every missing or invalid variable by name.
+ *
+ * @example
+ * const config = readEnv({ PORT: coerceNum, MODE: parseEnum(["dev", "prod"]) }, process.env);
+ * // ValidationError: environment variable expected at path "PORT"
+ * //                  expected one of "dev", "prod" at path "MODE"
+ */
+export const readEnv = <Sp extends Shape<void>>(
+  spec: Sp,
+  source: Readonly<Record<string, string | undefined>>,
+  { prefix, defaults, renderPath = jsPath, ...format }: ReadEnvOptions<Sp> = {},
+): ShapeValue<Sp> =>
+  runParser(parseEnv<Sp, void>(spec, { prefix, defaults }), {
+    input: source,
+    collectErrors: true,
+    renderPath,
+    ...format,
+  });
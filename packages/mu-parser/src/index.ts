@@ -2,6 +2,7 @@ export type { Parser } from "./parser";
 export {
   parser,
   combine,
+  lazy,
   runParser,
   input,
   success,
@@ -19,5 +20,139 @@ export {
   parseObj,
   parseField,
   parseList,
+  oneOf,
+  tuple,
+  record,
+  parseTaggedUnion,
+  parseShape,
+  optional,
 } from "./parsers";
+export {
+  refinement,
+  minLength,
+  maxLength,
+  matches,
+  trimmed,
+  email,
+  uuid,
+  url,
+  isoDate,
+  isoDateTime,
+  base64,
+  integer,
+  safeInteger,
+  finite,
+  min,
+  max,
+  exclusiveMin,
+  exclusiveMax,
+  multipleOf,
+  positive,
+  negative,
+  coerceNum,
+  coerceBigInt,
+  parseFieldAsync,
+  parseListAsync,
+  shapeCodec,
+  listCodec,
+  optionalCodec,
+  oneOfCodec,
+  taggedUnionCodec,
+  dateCodec,
+  parseBoolean,
+  parseBigInt,
+  parseSymbol,
+  parseDate,
+  parseInstanceOf,
+  parseMap,
+  parseSet,
+  parseIterable,
+  parseEnum,
+  coerceBoolean,
+  coerceUrl,
+  coerceDuration,
+  coerceList,
+  coerceDate,
+  withDefault,
+  nullable,
+  nullish,
+  transform,
+} from "./parsers";
+export type {
+  ShapeParser,
+  UnknownKeys,
+  Refinement,
+  RefinementCheck,
+  ParseListAsyncOptions,
+  CodecShape,
+  ShapeCodec,
+  ShapeOutput,
+  ParseIterableOptions,
+  CoerceListOptions,
+} from "./parsers";
+export { parseEach, parseEachAsync } from "./streams";
+export type { ParseEachParams } from "./streams";
+export { parseJsonStream, parseJsonArrayStream } from "./json-stream";
+export type {
+  JsonSource,
+  ParseJsonStreamParams,
+  SourcePosition,
+} from "./json-stream";
+export { codeFrame, parseJsonSource, withSourceLocations } from "./json-source";
+export type {
+  SourceDocument,
+  ParseJsonSourceOptions,
+  SourceLocationOptions,
+} from "./json-source";
+export { parseYamlSource } from "./yaml";
+export { parseEnv, readEnv } from "./env";
+export type { ParseEnvOptions, ReadEnvOptions } from "./env";
+export { parseTomlSource } from "./toml";
+export { parseQuery, readQuery, queryKey } from "./query";
+export type { QuerySource } from "./query";
+export { parseLines, summarizeLines } from "./lines";
+export type {
+  LineResult,
+  LineSource,
+  LinesSummary,
+  ParseLinesParams,
+} from "./lines";
+export { codec, identityCodec, mapCodec } from "./codec";
+export type { Codec } from "./codec";
+export type { Infer, InferInput, InferState } from "./infer";
+export {
+  ParserError,
+  AggregateParserError,
+  ValidationError,
+} from "./parser-error";
+export type { ParserErrorInfo, ParserErrorDetails } from "./parser-error";
+export { toJsonSchema, fromJsonSchema } from "./json-schema";
+export type {
+  JsonSchema,
+  JsonSchemaDefinition,
+  JsonSchemaType,
+} from "./json-schema";
+export {
+  asyncParser,
+  isAsyncParser,
+  liftAsync,
+  combineAsync,
+  runParserAsync,
+} from "./async-parser";
+export type { AsyncParser, AnyParser } from "./async-parser";
+export {
+  en,
+  formatWith,
+  formatErrors,
+  jsonPointer,
+  jsPath,
+  jsonPath,
+} from "./messages";
+export type {
+  MessageCatalog,
+  MessageFormatter,
+  PathRenderer,
+  FormatOptions,
+} from "./messages";
+export type { ParserMeta } from "./parser-meta";
 export * as parserResult from "./parser-result";
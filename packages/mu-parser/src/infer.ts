@@ -0,0 +1,37 @@
+import type { AsyncParser } from "./async-parser";
+import type { Codec } from "./codec";
+import type { Parser } from "./parser";
+
+/**
+ * The type of the value a parser succeeds with.
+ *
+ * @example
+ * const userParser = parseShape({ name: parseStr, age: parseNum });
+ * type User = Infer<typeof userParser>; // { name: string; age: number }
+ */
+export type Infer<P> =
+  P extends Parser<infer T, any>
+    ? T
+    : P extends AsyncParser<infer T, any>
+      ? T
+      : never;
+
+/**
+ * The type of the user state a parser reads and updates.
+ */
+export type InferState<P> =
+  P extends Parser<any, infer S>
+    ? S
+    : P extends AsyncParser<any, infer S>
+      ? S
+      : never;
+
+/**
+ * The type of the input a parser is meant for: the encoded form
+ * of a codec, such as one built with `transform`,
+ * and otherwise the type it succeeds with.
+ *
+ * @example
+ * type Wire = InferInput<typeof dateCodec>; // string
+ */
+export type InferInput<P> = P extends Codec<any, infer O, any> ? O : Infer<P>;
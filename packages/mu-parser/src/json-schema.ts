@@ -0,0 +1,582 @@
+import { fail, input, Parser, parser } from "./parser";
+import { invalidType, ParserErrorInfo } from "./parser-error";
+import { err, failure, ok, runAll } from "./parser-result";
+import {
+  integer,
+  parseBoolean,
+  oneOf,
+  parseList,
+  parseLit,
+  parseNull,
+  parseNum,
+  parseStr,
+} from "./parsers";
+import { fillsMissing } from "./parsers/defaults";
+import { isRefinement, RefinementCheck } from "./parsers/refine";
+import { optional, OptionalField, parseShape } from "./parsers/shape";
+import { defineOwn, formatValue, fromJsonPointerRefToken } from "./utils";
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null"
+  | "object"
+  | "array";
+
+/**
+ * The subset of JSON Schema (draft 2020-12) produced by `toJsonSchema`
+ * and understood by `fromJsonSchema`.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $comment?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchemaDefinition>;
+  definitions?: Record<string, JsonSchemaDefinition>;
+  type?: JsonSchemaType | JsonSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchemaDefinition>;
+  required?: string[];
+  additionalProperties?: JsonSchemaDefinition;
+  propertyNames?: JsonSchemaDefinition;
+  items?: JsonSchemaDefinition;
+  prefixItems?: JsonSchemaDefinition[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  contentEncoding?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  anyOf?: JsonSchemaDefinition[];
+  oneOf?: JsonSchemaDefinition[];
+  allOf?: JsonSchemaDefinition[];
+  not?: JsonSchemaDefinition;
+}
+
+/**
+ * A schema or one of the boolean schemas: `true` accepts anything,
+ * `false` accepts nothing.
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+const withComment = (schema: JsonSchema, comment: string): JsonSchema => ({
+  ...schema,
+  $comment: schema.$comment ? `${schema.$comment}; ${comment}` : comment,
+});
+
+/**
+ * JSON Schema keywords for the built-in refinements it can express.
+ */
+const describeRefinement = ({
+  name,
+  params,
+}: RefinementCheck): JsonSchema | undefined => {
+  switch (name) {
+    case "minLength":
+      return { minLength: params.min as number };
+    case "maxLength":
+      return { maxLength: params.max as number };
+    case "pattern":
+      // JSON Schema patterns have no flags, and are read as Unicode ones;
+      // other flags change what matches, so they are left unexported
+      return /^[dgu]*$/.test(params.flags as string)
+        ? { pattern: params.pattern as string }
+        : undefined;
+    case "email":
+      return { format: "email" };
+    case "uuid":
+      return { format: "uuid" };
+    case "url":
+      return { format: "uri" };
+    case "isoDate":
+      return { format: "date" };
+    case "isoDateTime":
+      return { format: "date-time" };
+    case "base64":
+      return { contentEncoding: "base64" };
+    case "integer":
+      return { type: "integer" };
+    case "safeInteger":
+      return {
+        type: "integer",
+        minimum: Number.MIN_SAFE_INTEGER,
+        maximum: Number.MAX_SAFE_INTEGER,
+      };
+    case "finite":
+      // every JSON number is finite
+      return {};
+    case "min":
+      return { minimum: params.min as number };
+    case "max":
+      return { maximum: params.max as number };
+    case "exclusiveMin":
+      return { exclusiveMinimum: params.min as number };
+    case "exclusiveMax":
+      return { exclusiveMaximum: params.max as number };
+    case "multipleOf":
+      return { multipleOf: params.divisor as number };
+    case "positive":
+      return { exclusiveMinimum: 0 };
+    case "negative":
+      return { exclusiveMaximum: 0 };
+  }
+};
+
+/**
+ * Branch names that numeric tags select as well.
+ */
+const NUMERIC_TAG = /^(?:0|-?[1-9]\d*)$/;
+
+/**
+ * The options of a schema that is only an `anyOf`, to merge into another one.
+ */
+const alternatives = (schema: JsonSchema): JsonSchemaDefinition[] =>
+  schema.anyOf && Object.keys(schema).length === 1 ? schema.anyOf : [schema];
+
+/**
+ * Lazy parsers found while describing, named so that
+ * recursive references can point at them.
+ */
+interface Definitions {
+  readonly names: Map<Parser<unknown, any>, string>;
+  readonly schemas: Record<string, JsonSchema>;
+}
+
+const describe = (
+  parser: Parser<unknown, any>,
+  defs: Definitions,
+): JsonSchema => {
+  const meta = parser.meta;
+  switch (meta.kind) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: "number" };
+    case "literal":
+      if (meta.value === null) {
+        return { type: "null" };
+      }
+      if (meta.value === undefined) {
+        return { not: {}, $comment: "undefined has no JSON representation" };
+      }
+      return { const: meta.value };
+    case "object":
+      return { type: "object" };
+    case "enum":
+      return { enum: [...meta.values] };
+    case "boolean":
+      return { type: "boolean" };
+    case "bigint":
+    case "symbol":
+    case "date":
+    case "instanceOf":
+    case "mapOf":
+    case "setOf":
+      return { not: {}, $comment: `${meta.kind} has no JSON representation` };
+    case "field":
+      if (typeof meta.name === "symbol") {
+        return withComment(
+          { type: "object" },
+          `symbol property ${String(meta.name)} has no JSON representation`,
+        );
+      }
+      return {
+        type: "object",
+        properties: { [String(meta.name)]: describe(meta.parser, defs) },
+        ...(fillsMissing(meta.parser) ? {} : { required: [String(meta.name)] }),
+      };
+    case "list":
+    case "iterable":
+      return { type: "array", items: describe(meta.item, defs) };
+    case "tuple":
+      return {
+        type: "array",
+        prefixItems: meta.items.map((item) => describe(item, defs)),
+        items: false,
+        minItems: meta.items.length,
+        maxItems: meta.items.length,
+      };
+    case "record":
+      return {
+        type: "object",
+        propertyNames: describe(meta.key, defs),
+        additionalProperties: describe(meta.value, defs),
+      };
+    case "shape": {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(meta.shape)) {
+        if (field instanceof OptionalField) {
+          properties[key] = describe(field.parser, defs);
+        } else if (fillsMissing(field)) {
+          properties[key] = describe(field, defs);
+        } else {
+          properties[key] = describe(field, defs);
+          required.push(key);
+        }
+      }
+      return {
+        type: "object",
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        ...(meta.unknownKeys === "strict"
+          ? { additionalProperties: false }
+          : {}),
+      };
+    }
+    case "taggedUnion": {
+      const tag = String(meta.tag);
+      return {
+        oneOf: Object.entries(meta.branches).map(([name, branch]) => ({
+          allOf: [
+            {
+              type: "object",
+              properties: {
+                [tag]: NUMERIC_TAG.test(name)
+                  ? { enum: [name, Number(name)] }
+                  : { const: name },
+              },
+              required: [tag],
+            },
+            describe(branch, defs),
+          ],
+        })),
+      };
+    }
+    case "union":
+      return {
+        anyOf: meta.options.flatMap((option) =>
+          alternatives(describe(option, defs)),
+        ),
+      };
+    case "optional": {
+      const schema = describe(meta.parser, defs);
+      // an optional field describes an object where the field may be missing
+      if (meta.parser.meta.kind === "field") {
+        delete schema.required;
+      }
+      return schema;
+    }
+    case "default": {
+      const schema = describe(meta.parser, defs);
+      const value = meta.value();
+      // `undefined` has no JSON representation, the field may just be missing
+      return value === undefined ? schema : { ...schema, default: value };
+    }
+    case "nullable":
+      return {
+        anyOf: [...alternatives(describe(meta.parser, defs)), { type: "null" }],
+      };
+    case "transform":
+      return describe(meta.parser, defs);
+    case "map":
+      return withComment(
+        describe(meta.parser, defs),
+        "value transformed by map",
+      );
+    case "andThen": {
+      const schema = describe(meta.parser, defs);
+      const refined = isRefinement(meta.next)
+        ? describeRefinement(meta.next.check)
+        : undefined;
+      return refined
+        ? { ...schema, ...refined }
+        : withComment(schema, "further constrained by andThen");
+    }
+    case "recover":
+      return withComment(
+        describe(meta.parser, defs),
+        "failures handled by recover",
+      );
+    case "success":
+      return { $comment: "any value accepted" };
+    case "fail":
+      return { not: {}, $comment: meta.reason };
+    case "lazy": {
+      let name = defs.names.get(parser);
+      if (name === undefined) {
+        name = `lazy${defs.names.size}`;
+        defs.names.set(parser, name);
+        defs.schemas[name] = describe(meta.get(), defs);
+      }
+      return { $ref: `#/$defs/${name}` };
+    }
+    case "combine":
+      return { $comment: "opaque combine block" };
+    case "custom":
+      return { $comment: "opaque custom parser" };
+  }
+};
+
+/**
+ * Generates a JSON Schema (draft 2020-12) describing the input a parser
+ * accepts. Parts that cannot be inspected, such as `combine` blocks or
+ * `map`/`andThen` steps, are described as loosely as possible and marked
+ * with a `$comment`.
+ */
+export const toJsonSchema = (parser: Parser<unknown, any>): JsonSchema => {
+  const defs: Definitions = { names: new Map(), schemas: {} };
+  const schema = describe(parser, defs);
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...schema,
+    ...(defs.names.size > 0 ? { $defs: defs.schemas } : {}),
+  };
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !(value instanceof Array);
+
+const jsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Array && b instanceof Array) {
+    return (
+      a.length === b.length && a.every((item, idx) => jsonEqual(item, b[idx]))
+    );
+  }
+  if (isJsonObject(a) && isJsonObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && jsonEqual(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+const typeParsers: Record<JsonSchemaType, Parser<unknown, any>> = {
+  string: parseStr,
+  number: parseNum,
+  integer: parseNum.andThen(integer),
+  boolean: parseBoolean,
+  null: parseNull,
+  object: parser((ctx) =>
+    isJsonObject(ctx.input)
+      ? ok(ctx.input, ctx)
+      : err("object expected", ctx, invalidType("object", ctx.input)),
+  ),
+  array: parser((ctx) =>
+    ctx.input instanceof Array
+      ? ok(ctx.input, ctx)
+      : err("array expected", ctx, invalidType("array", ctx.input)),
+  ),
+};
+
+/**
+ * Applies a keyword only to inputs it is meant for, as JSON Schema
+ * ignores e.g. `properties` when the instance is not an object.
+ */
+const applicableTo = <S>(
+  guard: (value: unknown) => boolean,
+  check: Parser<unknown, S>,
+): Parser<unknown, S> =>
+  parser((ctx) => (guard(ctx.input) ? check.run(ctx) : ok(ctx.input, ctx)));
+
+/**
+ * Runs every check against the same input and succeeds with the input.
+ */
+const allOf = <S>(
+  checks: ReadonlyArray<Parser<unknown, S>>,
+): Parser<unknown, S> =>
+  parser((ctx) => {
+    const res = runAll(ctx, checks.length, (idx, ctx) =>
+      (checks[idx] as Parser<unknown, S>).run(ctx),
+    );
+    return res.success ? ok(ctx.input, res.state) : res;
+  });
+
+const exactlyOne = <S>(
+  options: ReadonlyArray<Parser<unknown, S>>,
+): Parser<unknown, S> =>
+  parser((ctx) => {
+    const errors: ParserErrorInfo[] = [];
+    const matched = options.flatMap((option) => {
+      const res = option.run(ctx);
+      if (res.success) {
+        return [res];
+      }
+      errors.push(...res.errors);
+      return [];
+    });
+    const [first] = matched;
+    if (first && matched.length === 1) {
+      return first;
+    }
+    return first
+      ? err(
+          `expected exactly one schema to match, ${matched.length} matched`,
+          ctx,
+          { code: "ambiguous_match", params: { matched: matched.length } },
+        )
+      : failure(errors);
+  });
+
+const expectValue = <S>(value: unknown): Parser<unknown, S> =>
+  value === null || typeof value === "string" || typeof value === "number"
+    ? parseLit(value)
+    : parser((ctx) =>
+        jsonEqual(ctx.input, value)
+          ? ok(ctx.input, ctx)
+          : err(`expected value ${JSON.stringify(value)}`, ctx, {
+              code: "invalid_literal",
+              expected: JSON.stringify(value),
+              received: formatValue(ctx.input),
+              params: { value },
+            }),
+      );
+
+/**
+ * Builds a parser that validates input against a JSON Schema document
+ * and succeeds with the input unchanged.
+ *
+ * Supports `type`, `properties`, `required`, `additionalProperties: false`,
+ * `items`, `enum`, `const`, `allOf`, `anyOf`, `oneOf` and local `$ref`s.
+ * Other keywords are ignored.
+ */
+export const fromJsonSchema = <S = any>(
+  root: JsonSchemaDefinition,
+): Parser<unknown, S> => {
+  const refs = new Map<string, Parser<unknown, S>>();
+
+  const resolve = (ref: string): JsonSchemaDefinition => {
+    if (!ref.startsWith("#")) {
+      throw new Error(
+        `unsupported $ref "${ref}", only local references are supported`,
+      );
+    }
+    const tokens = decodeURIComponent(ref.slice(1)).split("/").slice(1);
+    return tokens
+      .map(fromJsonPointerRefToken)
+      .reduce<unknown>((node, token) => {
+        if (typeof node === "object" && node !== null && token in node) {
+          return (node as Record<string, unknown>)[token];
+        }
+        throw new Error(`unresolved $ref "${ref}"`);
+      }, root) as JsonSchemaDefinition;
+  };
+
+  const reference = (ref: string): Parser<unknown, S> => {
+    const known = refs.get(ref);
+    if (known) {
+      return known;
+    }
+    const target = resolve(ref);
+    // built on first use, so that recursive references terminate
+    let resolved: Parser<unknown, S> | undefined;
+    const deferred = parser<unknown, S>((ctx) =>
+      (resolved ??= build(target)).run(ctx),
+    );
+    refs.set(ref, deferred);
+    return deferred;
+  };
+
+  const build = (schema: JsonSchemaDefinition): Parser<unknown, S> => {
+    if (schema === true) {
+      return input;
+    }
+    if (schema === false) {
+      return fail("no value allowed", { code: "never" });
+    }
+
+    const checks: Parser<unknown, S>[] = [];
+    // the object and array checks succeed with a copy, stripped of keys
+    // the schema does not mention, so they run through `allOf` to keep the input
+    let rebuilds = false;
+    if (schema.$ref !== undefined) {
+      checks.push(reference(schema.$ref));
+    }
+    if (schema.type !== undefined) {
+      const types = schema.type instanceof Array ? schema.type : [schema.type];
+      checks.push(oneOf(...types.map((type) => typeParsers[type])));
+    }
+    if ("const" in schema) {
+      checks.push(expectValue(schema.const));
+    }
+    if (schema.enum !== undefined) {
+      const values = schema.enum;
+      const expected = values.map((value) => JSON.stringify(value)).join(", ");
+      checks.push(
+        parser((ctx) =>
+          values.some((value) => jsonEqual(ctx.input, value))
+            ? ok(ctx.input, ctx)
+            : err(`expected one of ${expected}`, ctx, {
+                code: "invalid_enum_value",
+                expected: `one of ${expected}`,
+                received: formatValue(ctx.input),
+                params: { options: values },
+              }),
+        ),
+      );
+    }
+    if (
+      schema.properties !== undefined ||
+      schema.required !== undefined ||
+      schema.additionalProperties === false
+    ) {
+      const properties = schema.properties ?? {};
+      const required = new Set(schema.required);
+      const shape: Record<
+        string,
+        Parser<unknown, S> | OptionalField<unknown, S>
+      > = {};
+      for (const key of new Set([...Object.keys(properties), ...required])) {
+        const property = Object.hasOwn(properties, key)
+          ? build(properties[key] as JsonSchemaDefinition)
+          : input;
+        defineOwn(
+          shape,
+          key,
+          required.has(key) ? property : optional(property),
+        );
+      }
+      rebuilds = true;
+      checks.push(
+        applicableTo(
+          isJsonObject,
+          parseShape(shape, {
+            unknownKeys:
+              schema.additionalProperties === false ? "strict" : "strip",
+          }),
+        ),
+      );
+    }
+    if (schema.items !== undefined) {
+      rebuilds = true;
+      checks.push(
+        applicableTo(
+          (value) => value instanceof Array,
+          parseList(build(schema.items)),
+        ),
+      );
+    }
+    if (schema.allOf !== undefined) {
+      checks.push(allOf(schema.allOf.map(build)));
+    }
+    if (schema.anyOf !== undefined) {
+      checks.push(oneOf(...schema.anyOf.map(build)));
+    }
+    if (schema.oneOf !== undefined) {
+      checks.push(exactlyOne(schema.oneOf.map(build)));
+    }
+
+    const [only] = checks;
+    return only && checks.length === 1 && !rebuilds ? only : allOf(checks);
+  };
+
+  return build(root);
+};
@@ -0,0 +1,146 @@
+import {
+  SourceSyntaxError,
+  JsonTokenizer,
+  SourcePosition,
+} from "./json-stream";
+import { en, FormatOptions, formatWith, jsonPointer } from "./messages";
+import { validationError } from "./parser";
+
+/**
+ * Parsed text that remembers where each of its values starts.
+ */
+export interface SourceDocument {
+  readonly text: string;
+  readonly value: unknown;
+  /**
+   * The position of the value at `path`, or of its closest ancestor
+   * present in the text, such as the object missing a property.
+   */
+  locate(path: ReadonlyArray<string | number | symbol>): SourcePosition;
+}
+
+export interface ParseJsonSourceOptions extends FormatOptions {
+  /**
+   * Allows comments and trailing commas, as in JSONC.
+   */
+  readonly jsonc?: boolean;
+}
+
+export interface SourceLocationOptions extends FormatOptions {
+  /**
+   * Adds a snippet of the text around each error. Defaults to `true`.
+   */
+  readonly codeFrame?: boolean;
+}
+
+/**
+ * Parses JSON or JSONC text, keeping the position of every value so that
+ * validation errors can point at their line and column.
+ * Throws a `ValidationError` with the code `invalid_json` on syntax errors.
+ *
+ * @example
+ * const doc = parseJsonSource(fs.readFileSync("config.jsonc", "utf8"), { jsonc: true });
+ * runParser(configParser, { input: doc.value, ...withSourceLocations(doc) });
+ */
+export const parseJsonSource = (
+  text: string,
+  { jsonc = false, ...format }: ParseJsonSourceOptions = {},
+): SourceDocument => {
+  const positions = new Map<string, SourcePosition>();
+  const tokenizer = new JsonTokenizer({
+    jsonc,
+    onValue: (path, position) => positions.set(jsonPointer(path), position),
+  });
+
+  let value: unknown;
+  try {
+    tokenizer.write(text);
+    value = tokenizer.end();
+  } catch (e) {
+    if (e instanceof SourceSyntaxError) {
+      throw validationError([e.info], format);
+    }
+    throw e;
+  }
+
+  return sourceDocument(text, value, positions);
+};
+
+/**
+ * Builds a `SourceDocument` from the positions of its values,
+ * keyed by the JSON Pointer of their paths.
+ */
+export const sourceDocument = (
+  text: string,
+  value: unknown,
+  positions: ReadonlyMap<string, SourcePosition>,
+): SourceDocument => ({
+  text,
+  value,
+  locate: (path) => {
+    for (let depth = path.length; depth > 0; depth--) {
+      const position = positions.get(jsonPointer(path.slice(0, depth)));
+      if (position) {
+        return position;
+      }
+    }
+    return positions.get("") ?? { line: 1, column: 1 };
+  },
+});
+
+/**
+ * Renders the lines around `position` with a marker under its column.
+ *
+ * @example
+ *   2 |   "services": [
+ * > 3 |     { "port": "80" }
+ *     |               ^
+ *   4 |   ]
+ */
+export const codeFrame = (
+  text: string,
+  { line, column }: SourcePosition,
+  contextLines = 2,
+): string => {
+  const lines = text.split(/\r?\n/);
+  const first = Math.max(line - contextLines, 1);
+  const last = Math.min(line + contextLines, lines.length);
+  const width = String(last).length;
+
+  const rows: string[] = [];
+  for (let n = first; n <= last; n++) {
+    const source = lines[n - 1] ?? "";
+    rows.push(
+      `${n === line ? ">" : " "} ${String(n).padStart(width)} | ${source}`.trimEnd(),
+    );
+    if (n === line) {
+      // keeps tabs so that the marker lines up with the source
+      const indent = [...source]
+        .slice(0, column - 1)
+        .map((ch) => (ch === "\t" ? "\t" : " "))
+        .join("");
+      rows.push(`  ${" ".repeat(width)} | ${indent}^`);
+    }
+  }
+  return rows.join("\n");
+};
+
+/**
+ * Formatting options for `runParser` that add the line and column
+ * of the failing value, and a code frame, to each error message.
+ */
+export const withSourceLocations = (
+  doc: SourceDocument,
+  {
+    formatMessage = formatWith(en),
+    renderPath = jsonPointer,
+    codeFrame: showFrame = true,
+  }: SourceLocationOptions = {},
+): Required<FormatOptions> => ({
+  renderPath,
+  formatMessage: (error, path) => {
+    const position = doc.locate(error.path);
+    const message = `${formatMessage(error, path)} (line ${position.line}, column ${position.column})`;
+    return showFrame ? `${message}\n${codeFrame(doc.text, position)}` : message;
+  },
+});
@@ -0,0 +1,611 @@
+import { AnyParser } from "./async-parser";
+import { FormatOptions } from "./messages";
+import { Parser, settle, validationError } from "./parser";
+import { ParserErrorInfo } from "./parser-error";
+import { ParserMeta } from "./parser-meta";
+import { ParserState } from "./parser-state";
+import { OptionalField } from "./parsers/shape";
+import { defineOwn } from "./utils";
+
+/**
+ * JSON text as a whole, or as chunks of text or UTF-8 bytes,
+ * such as a Node.js readable stream or a `fetch` response body.
+ */
+export type JsonSource =
+  | string
+  | Uint8Array
+  | Iterable<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+export interface ParseJsonStreamParams<S> extends FormatOptions {
+  initialState?: S;
+  collectErrors?: boolean;
+}
+
+type Frame =
+  | { kind: "array"; value: unknown[]; index: number }
+  | { kind: "object"; value: Record<string, unknown>; key?: string };
+
+type Expect =
+  | "value"
+  | "valueOrEnd"
+  | "key"
+  | "keyOrEnd"
+  | "colon"
+  | "commaOrEnd"
+  | "done";
+
+const WHITESPACE = /[ \t\n\r]/;
+const TOKEN_CHAR = /[\w.+-]/;
+
+const scalarType = (ch: string) =>
+  ch === '"'
+    ? "string"
+    : ch === "t" || ch === "f"
+      ? "boolean"
+      : ch === "n"
+        ? "null"
+        : "number";
+
+/**
+ * Where a value starts in JSON text, counting from 1.
+ */
+export interface SourcePosition {
+  readonly line: number;
+  readonly column: number;
+}
+
+/**
+ * Carries a syntax error out of a source reader.
+ */
+export class SourceSyntaxError {
+  constructor(readonly info: ParserErrorInfo) {}
+}
+
+export interface JsonTokenizerOptions {
+  /**
+   * Requires an array and hands its elements over one by one
+   * as soon as they are complete instead of keeping them.
+   */
+  readonly onElement?: (value: unknown, index: number) => void;
+  /**
+   * Called with the path and position of every value as it starts.
+   */
+  readonly onValue?: (
+    path: ReadonlyArray<string | number>,
+    position: SourcePosition,
+  ) => void;
+  /**
+   * Called with the path of every value once it is complete.
+   */
+  readonly onComplete?: (
+    path: ReadonlyArray<string | number>,
+    value: unknown,
+  ) => void;
+  /**
+   * Allows comments and trailing commas, as in JSONC.
+   */
+  readonly jsonc?: boolean;
+  /**
+   * The line of the input the text starts on.
+   */
+  readonly line?: number;
+}
+
+/**
+ * Builds JSON values from text fed to it in chunks of any size.
+ */
+export class JsonTokenizer {
+  private readonly stack: Frame[] = [];
+  private expect: Expect = "value";
+  private root: unknown;
+  private token = "";
+  private tokenStart: SourcePosition = { line: 1, column: 0 };
+  private str: string | undefined;
+  private escaped = false;
+  private comment: "line" | "block" | undefined;
+  private slash = false;
+  private star = false;
+  private line: number;
+  private column = 0;
+  private readonly onElement: JsonTokenizerOptions["onElement"];
+  private readonly onValue: JsonTokenizerOptions["onValue"];
+  private readonly onComplete: JsonTokenizerOptions["onComplete"];
+  private readonly jsonc: boolean;
+
+  constructor({
+    onElement,
+    onValue,
+    onComplete,
+    jsonc = false,
+    line = 1,
+  }: JsonTokenizerOptions = {}) {
+    this.onElement = onElement;
+    this.onValue = onValue;
+    this.onComplete = onComplete;
+    this.jsonc = jsonc;
+    this.line = line;
+  }
+
+  get path(): Array<string | number> {
+    return this.stack.flatMap(
+      (frame): Array<string | number> =>
+        frame.kind === "array"
+          ? [frame.index]
+          : frame.key === undefined
+            ? []
+            : [frame.key],
+    );
+  }
+
+  write(text: string) {
+    for (const ch of text) {
+      if (ch === "\n") {
+        this.line++;
+        this.column = 0;
+      } else {
+        this.column++;
+      }
+
+      if (this.comment) {
+        this.skipComment(ch);
+        continue;
+      }
+      if (this.str !== undefined) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === "\\") {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.string(this.str);
+          continue;
+        }
+        this.str += ch;
+        continue;
+      }
+      if (this.token) {
+        if (TOKEN_CHAR.test(ch)) {
+          this.token += ch;
+          continue;
+        }
+        this.flushToken();
+      }
+      if (this.slash) {
+        this.slash = false;
+        if (ch !== "/" && ch !== "*") {
+          this.fail('"/"');
+        }
+        this.comment = ch === "/" ? "line" : "block";
+        this.star = false;
+      } else if (this.jsonc && ch === "/") {
+        this.slash = true;
+      } else if (!WHITESPACE.test(ch)) {
+        this.char(ch);
+      }
+    }
+  }
+
+  end(): unknown {
+    if (this.token) {
+      this.flushToken();
+    }
+    if (this.comment === "block" || this.slash) {
+      this.fail("end of input");
+    }
+    if (this.expect !== "done") {
+      this.fail("end of input");
+    }
+    return this.root;
+  }
+
+  private skipComment(ch: string) {
+    if (this.comment === "line" ? ch === "\n" : this.star && ch === "/") {
+      this.comment = undefined;
+    }
+    this.star = ch === "*";
+  }
+
+  private char(ch: string) {
+    const frame = this.stack.at(-1);
+    const expectsValue =
+      this.expect === "value" || this.expect === "valueOrEnd";
+
+    if (expectsValue && this.onElement && !frame && ch !== "[") {
+      throw new SourceSyntaxError({
+        reason: "array expected",
+        path: [],
+        code: "invalid_type",
+        expected: "array",
+        received: ch === "{" ? "object" : scalarType(ch),
+      });
+    }
+
+    if (expectsValue && /["[{\-\dtfn]/.test(ch)) {
+      this.onValue?.(this.path, this.position);
+    }
+
+    if (ch === '"' && (expectsValue || this.isExpecting("key", "keyOrEnd"))) {
+      this.str = "";
+    } else if (ch === "[" && expectsValue) {
+      this.stack.push({ kind: "array", value: [], index: 0 });
+      this.expect = "valueOrEnd";
+    } else if (ch === "{" && expectsValue) {
+      this.stack.push({ kind: "object", value: {} });
+      this.expect = "keyOrEnd";
+    } else if (
+      ch === "]" &&
+      frame?.kind === "array" &&
+      (this.isExpecting("valueOrEnd", "commaOrEnd") ||
+        (this.jsonc && this.expect === "value"))
+    ) {
+      this.stack.pop();
+      this.value(frame.value);
+    } else if (
+      ch === "}" &&
+      frame?.kind === "object" &&
+      (this.isExpecting("keyOrEnd", "commaOrEnd") ||
+        (this.jsonc && this.expect === "key"))
+    ) {
+      this.stack.pop();
+      this.value(frame.value);
+    } else if (ch === "," && frame && this.expect === "commaOrEnd") {
+      this.expect = frame.kind === "array" ? "value" : "key";
+    } else if (ch === ":" && this.expect === "colon") {
+      this.expect = "value";
+    } else if (expectsValue && /[-\dtfn]/.test(ch)) {
+      this.token = ch;
+      this.tokenStart = this.position;
+    } else {
+      this.fail(JSON.stringify(ch));
+    }
+  }
+
+  private string(raw: string) {
+    this.str = undefined;
+    let decoded: string;
+    try {
+      decoded = JSON.parse(`"${raw}"`);
+    } catch {
+      return this.fail("invalid string");
+    }
+    const frame = this.stack.at(-1);
+    if (frame?.kind === "object" && this.isExpecting("key", "keyOrEnd")) {
+      frame.key = decoded;
+      this.expect = "colon";
+    } else {
+      this.value(decoded);
+    }
+  }
+
+  private flushToken() {
+    const token = this.token;
+    this.token = "";
+    let value: unknown;
+    try {
+      value = JSON.parse(token);
+    } catch {
+      return this.fail(JSON.stringify(token), this.tokenStart);
+    }
+    this.value(value);
+  }
+
+  private value(value: unknown) {
+    this.onComplete?.(this.path, value);
+    const frame = this.stack.at(-1);
+    if (!frame) {
+      this.root = value;
+      this.expect = "done";
+      return;
+    }
+    if (frame.kind === "array") {
+      if (this.onElement && this.stack.length === 1) {
+        this.onElement(value, frame.index);
+      } else {
+        frame.value.push(value);
+      }
+      frame.index++;
+    } else {
+      defineOwn(frame.value, frame.key as string, value);
+      frame.key = undefined;
+    }
+    this.expect = "commaOrEnd";
+  }
+
+  private get position(): SourcePosition {
+    return { line: this.line, column: this.column };
+  }
+
+  private isExpecting(...expected: Expect[]) {
+    return expected.includes(this.expect);
+  }
+
+  private expected() {
+    const frame = this.stack.at(-1);
+    switch (this.expect) {
+      case "value":
+        return "value";
+      case "valueOrEnd":
+        return "value or ']'";
+      case "key":
+        return "property name";
+      case "keyOrEnd":
+        return "property name or '}'";
+      case "colon":
+        return "':'";
+      case "commaOrEnd":
+        return frame?.kind === "array" ? "',' or ']'" : "',' or '}'";
+      case "done":
+        return "end of input";
+    }
+  }
+
+  private fail(
+    received: string,
+    { line, column }: SourcePosition = this.position,
+  ): never {
+    const expected = this.expected();
+    throw new SourceSyntaxError({
+      reason: `invalid JSON, ${expected} expected at line ${line}, column ${column}`,
+      path: this.path,
+      code: "invalid_json",
+      expected,
+      received,
+      params: { line, column },
+    });
+  }
+}
+
+/**
+ * Parses a complete JSON text, reporting a syntax error as `parseJsonStream`
+ * does. `line` is the line of the input the text starts on.
+ */
+export const readJson = (
+  text: string,
+  line = 1,
+):
+  | { readonly success: true; readonly value: unknown }
+  | { readonly success: false; readonly error: ParserErrorInfo } => {
+  const tokenizer = new JsonTokenizer({ line });
+  try {
+    tokenizer.write(text);
+    return { success: true, value: tokenizer.end() };
+  } catch (e) {
+    if (e instanceof SourceSyntaxError) {
+      return { success: false, error: e.info };
+    }
+    throw e;
+  }
+};
+
+async function* textChunks(source: JsonSource): AsyncGenerator<string> {
+  if (typeof source === "string") {
+    yield source;
+    return;
+  }
+  const decoder = new TextDecoder();
+  if (source instanceof Uint8Array) {
+    yield decoder.decode(source);
+    return;
+  }
+  for await (const chunk of source) {
+    yield typeof chunk === "string"
+      ? chunk
+      : decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Validates the elements of a top-level JSON array as they arrive,
+ * yielding each parsed element before the rest of the input is read.
+ * Only the element being read is kept in memory.
+ *
+ * Throws a `ValidationError` at the first invalid element or syntax error,
+ * with the path inside the array, or at the end when collecting errors.
+ *
+ * @example
+ * for await (const row of parseJsonArrayStream(rowParser, fs.createReadStream(file))) { ... }
+ */
+export async function* parseJsonArrayStream<T, S = any>(
+  itemParser: AnyParser<T, S>,
+  source: JsonSource,
+  {
+    initialState,
+    collectErrors = false,
+    ...format
+  }: ParseJsonStreamParams<S> = {},
+): AsyncGenerator<T, void, undefined> {
+  const pending: Array<readonly [unknown, number]> = [];
+  const tokenizer = new JsonTokenizer({
+    onElement: (value, idx) => pending.push([value, idx]),
+  });
+  let ctx = ParserState.empty(undefined, initialState as S, collectErrors);
+  const errors: ParserErrorInfo[] = [];
+
+  const chunks = textChunks(source);
+  for (let done = false; !done; ) {
+    let syntaxError: SourceSyntaxError | undefined;
+    try {
+      const chunk = await chunks.next();
+      if (chunk.done) {
+        done = true;
+        tokenizer.end();
+      } else {
+        tokenizer.write(chunk.value);
+      }
+    } catch (e) {
+      if (!(e instanceof SourceSyntaxError)) {
+        throw e;
+      }
+      syntaxError = e;
+    }
+
+    // elements completed before a syntax error are still checked first
+    for (const [value, idx] of pending.splice(0)) {
+      const res = await itemParser.run(ctx.visiting(idx, value));
+      if (res.success) {
+        ctx = ctx.withStateOf(res.state);
+        yield res.value;
+      } else if (collectErrors) {
+        errors.push(...res.errors);
+      } else {
+        throw validationError(res.errors, format);
+      }
+    }
+    if (syntaxError) {
+      throw validationError([...errors, syntaxError.info], format);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw validationError(errors, format);
+  }
+}
+
+type Step = string | number;
+
+const descends = (kind: ParserMeta["kind"]) =>
+  kind === "shape" ||
+  kind === "field" ||
+  kind === "list" ||
+  kind === "iterable";
+
+/**
+ * Finds the parsers that `parser` runs on the values at given paths,
+ * looking through shapes, fields, lists and the wrappers that hand
+ * their input on as it is, so that values can be checked as soon as
+ * they are complete. List items are checked as a whole, and the values
+ * not nested in one when nothing more can be looked into.
+ */
+const earlyChecks = (parser: Parser<unknown, any>) => {
+  const unwrapped = new Map<Parser<unknown, any>, Parser<unknown, any>>();
+  const unwrap = (parser: Parser<unknown, any>): Parser<unknown, any> => {
+    let inner = unwrapped.get(parser);
+    if (!inner) {
+      const meta = parser.meta;
+      switch (meta.kind) {
+        case "map":
+        case "andThen":
+        case "transform":
+        case "default":
+        case "nullable":
+          inner = unwrap(meta.parser);
+          break;
+        case "lazy":
+          inner = unwrap(meta.get());
+          break;
+        default:
+          inner = parser;
+      }
+      unwrapped.set(parser, inner);
+    }
+    return inner;
+  };
+
+  const stepInto = (
+    parser: Parser<unknown, any>,
+    step: Step,
+  ): Parser<unknown, any> | undefined => {
+    const meta = unwrap(parser).meta;
+    switch (meta.kind) {
+      case "shape": {
+        if (typeof step !== "string" || !Object.hasOwn(meta.shape, step)) {
+          return undefined;
+        }
+        const field = meta.shape[step];
+        return field instanceof OptionalField ? field.parser : field;
+      }
+      case "field":
+        return meta.name === step ? meta.parser : undefined;
+      case "list":
+      case "iterable":
+        return typeof step === "number" ? meta.item : undefined;
+      default:
+        return undefined;
+    }
+  };
+
+  return (path: ReadonlyArray<Step>): Parser<unknown, any> | undefined => {
+    let current = parser;
+    for (const [idx, step] of path.entries()) {
+      const kind = unwrap(current).meta.kind;
+      const next = stepInto(current, step);
+      if (!next) {
+        return undefined;
+      }
+      if (kind === "list" || kind === "iterable") {
+        return idx === path.length - 1 ? next : undefined;
+      }
+      current = next;
+    }
+    return path.length > 0 && !descends(unwrap(current).meta.kind)
+      ? current
+      : undefined;
+  };
+};
+
+/**
+ * Parses JSON text arriving in chunks and validates it with `parser`.
+ *
+ * Values are checked as soon as they are complete wherever `parser`
+ * looks into them: the items of lists and the fields of shapes, through
+ * `map`, `transform`, `withDefault` and `nullable`. An invalid value
+ * fails the parse before the rest of the input is read, and the whole
+ * document is parsed once complete. These checks start from `initialState`
+ * and are left out when collecting errors. A top-level `parseList` gets
+ * its elements one by one, without the whole document being built.
+ * Syntax errors fail as soon as they are read.
+ */
+export const parseJsonStream = async <T, S = any>(
+  parser: AnyParser<T, S>,
+  source: JsonSource,
+  params: ParseJsonStreamParams<S> = {},
+): Promise<T> => {
+  const { meta } = parser as Partial<Parser<T, S>>;
+  if (meta?.kind === "list") {
+    const items: unknown[] = [];
+    for await (const item of parseJsonArrayStream(meta.item, source, params)) {
+      items.push(item);
+    }
+    return items as T;
+  }
+
+  const { initialState, collectErrors = false, ...format } = params;
+  const checkAt =
+    meta && !collectErrors ? earlyChecks(parser as Parser<T, S>) : undefined;
+  const tokenizer = new JsonTokenizer({
+    onComplete:
+      checkAt &&
+      ((path, value) => {
+        const check = checkAt(path);
+        if (!check) {
+          return;
+        }
+        let ctx = ParserState.empty(undefined, initialState as S);
+        for (const [idx, step] of path.entries()) {
+          ctx = ctx.visiting(step, idx === path.length - 1 ? value : undefined);
+        }
+        const res = check.run(ctx);
+        if (!res.success) {
+          throw validationError(res.errors, format);
+        }
+      }),
+  });
+  try {
+    for await (const chunk of textChunks(source)) {
+      tokenizer.write(chunk);
+    }
+    const input = tokenizer.end();
+    return settle(
+      await parser.run(
+        ParserState.empty(input, initialState as S, collectErrors),
+      ),
+      format,
+    );
+  } catch (e) {
+    if (e instanceof SourceSyntaxError) {
+      throw validationError([e.info], format);
+    }
+    throw e;
+  }
+};
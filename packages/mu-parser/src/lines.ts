@@ -0,0 +1,131 @@
+import { AnyParser } from "./async-parser";
+import { readJson } from "./json-stream";
+import { FormatOptions } from "./messages";
+import { validationError } from "./parser";
+import { ValidationError } from "./parser-error";
+import { ParserState } from "./parser-state";
+
+/**
+ * NDJSON text as a whole, or arriving as bytes or lines.
+ * Bytes, as Node.js streams yield them by default, are split at newlines.
+ * Strings from an iterable are taken as whole lines, as `readline` yields them.
+ */
+export type LineSource =
+  | string
+  | Iterable<string | Uint8Array>
+  | AsyncIterable<string | Uint8Array>;
+
+export interface ParseLinesParams<S> extends FormatOptions {
+  initialState?: S;
+  collectErrors?: boolean;
+}
+
+/**
+ * The outcome of one record. Error paths start with the line number.
+ */
+export type LineResult<T> =
+  | { readonly line: number; readonly value: T }
+  | { readonly line: number; readonly error: ValidationError };
+
+export interface LinesSummary {
+  readonly records: number;
+  readonly valid: number;
+  readonly invalid: number;
+  /**
+   * How many times each error `reason` occurred.
+   */
+  readonly failures: Readonly<Record<string, number>>;
+}
+
+async function* sourceLines(source: LineSource): AsyncGenerator<string> {
+  if (typeof source === "string") {
+    yield* source.split("\n");
+    return;
+  }
+  const decoder = new TextDecoder();
+  let rest = "";
+  for await (const chunk of source) {
+    if (typeof chunk === "string") {
+      yield* (rest + chunk).split("\n");
+      rest = "";
+    } else {
+      const lines = (rest + decoder.decode(chunk, { stream: true })).split(
+        "\n",
+      );
+      rest = lines.pop() as string;
+      yield* lines;
+    }
+  }
+  rest += decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Validates each record of NDJSON (JSON Lines) input on its own,
+ * yielding `{ line, value }` or `{ line, error }` per record
+ * instead of stopping at the first invalid one. Lines are numbered from 1,
+ * blank lines are skipped.
+ *
+ * @example
+ * for await (const entry of parseLines(eventParser, fs.createReadStream("events.ndjson"))) {
+ *   if ("error" in entry) console.warn(entry.error.message);
+ * }
+ */
+export async function* parseLines<T, S = any>(
+  parser: AnyParser<T, S>,
+  source: LineSource,
+  { initialState, collectErrors = false, ...format }: ParseLinesParams<S> = {},
+): AsyncGenerator<LineResult<T>, void, undefined> {
+  const ctx = ParserState.empty(undefined, initialState as S, collectErrors);
+  let line = 0;
+  for await (const text of sourceLines(source)) {
+    line++;
+    if (text.trim() === "") {
+      continue;
+    }
+
+    const record = readJson(text.replace(/\r$/, ""), line);
+    if (!record.success) {
+      const { error } = record;
+      yield {
+        line,
+        error: validationError(
+          [{ ...error, path: [line, ...error.path] }],
+          format,
+        ),
+      };
+      continue;
+    }
+
+    const res = await parser.run(ctx.visiting(line, record.value));
+    yield res.success
+      ? { line, value: res.value }
+      : { line, error: validationError(res.errors, format) };
+  }
+}
+
+/**
+ * Runs `parseLines` to the end and counts the outcomes,
+ * with failures grouped by `reason`.
+ */
+export const summarizeLines = async <S = any>(
+  parser: AnyParser<unknown, S>,
+  source: LineSource,
+  params?: ParseLinesParams<S>,
+): Promise<LinesSummary> => {
+  let records = 0;
+  let invalid = 0;
+  const failures: Record<string, number> = {};
+  for await (const entry of parseLines(parser, source, params)) {
+    records++;
+    if ("error" in entry) {
+      invalid++;
+      entry.error.errors.forEach(({ reason }) => {
+        failures[reason] = (failures[reason] ?? 0) + 1;
+      });
+    }
+  }
+  return { records, valid: records - invalid, invalid, failures };
+};
@@ -0,0 +1,166 @@
+import { ParserErrorInfo } from "./parser-error";
+import { toJsonPointerRefToken } from "./utils";
+
+type Path = ReadonlyArray<string | number | symbol>;
+
+/**
+ * Renders an error path as text.
+ */
+export type PathRenderer = (path: Path) => string;
+
+/**
+ * Turns a structured error and its rendered path into a line of text.
+ */
+export type MessageFormatter = (error: ParserErrorInfo, path: string) => string;
+
+/**
+ * Messages of one locale, keyed by error code.
+ * `atPath` places a message and its rendered path in a sentence.
+ */
+export interface MessageCatalog {
+  readonly messages: Readonly<
+    Record<string, (error: ParserErrorInfo) => string>
+  >;
+  readonly atPath: (message: string, path: string) => string;
+}
+
+/**
+ * `/users/1/age`, the default.
+ */
+export const jsonPointer: PathRenderer = (path) =>
+  path.map(toJsonPointerRefToken).join("");
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const renderSegments = (path: Path, root: string) =>
+  path.reduce<string>((rendered, part) => {
+    if (typeof part === "number") {
+      return `${rendered}[${part}]`;
+    }
+    if (typeof part === "symbol") {
+      return `${rendered}[${part.toString()}]`;
+    }
+    if (IDENTIFIER.test(part)) {
+      return rendered ? `${rendered}.${part}` : part;
+    }
+    return `${rendered}[${JSON.stringify(part)}]`;
+  }, root);
+
+/**
+ * `users[1].age`, as the value would be accessed in JavaScript.
+ */
+export const jsPath: PathRenderer = (path) => renderSegments(path, "");
+
+/**
+ * `$.users[1].age`
+ */
+export const jsonPath: PathRenderer = (path) => renderSegments(path, "$");
+
+const param = (error: ParserErrorInfo, name: string) => error.params?.[name];
+
+const formatLiteral = (value: unknown) =>
+  (typeof value === "object" && value !== null) || typeof value === "boolean"
+    ? JSON.stringify(value)
+    : `"${String(value)}"`;
+
+/**
+ * English messages for every built-in error code,
+ * matching the `reason`s the built-in parsers report.
+ */
+export const en: MessageCatalog = {
+  messages: {
+    invalid_type: (error) => `${error.expected} expected`,
+    invalid_literal: (error) =>
+      `expected value ${formatLiteral(param(error, "value"))}`,
+    missing_property: (error) =>
+      `property '${String(param(error, "property"))}' expected`,
+    unrecognized_property: (error) =>
+      `unexpected property '${String(param(error, "property"))}'`,
+    invalid_length: (error) =>
+      `array of length ${param(error, "length")} expected`,
+    invalid_tag: (error) =>
+      `unknown tag '${String(param(error, "value"))}', expected ${error.expected}`,
+    circular_reference: () => "circular reference detected",
+    no_options: () => "no parsers given",
+    invalid_enum_value: (error) => `expected ${error.expected}`,
+    ambiguous_match: (error) =>
+      `expected exactly one schema to match, ${param(error, "matched")} matched`,
+    never: () => "no value allowed",
+    too_short: (error) =>
+      `string of at least ${param(error, "min")} characters expected`,
+    too_long: (error) =>
+      `string of at most ${param(error, "max")} characters expected`,
+    invalid_pattern: (error) =>
+      `string matching /${param(error, "pattern")}/${param(error, "flags")} expected`,
+    not_trimmed: () => "trimmed string expected",
+    invalid_email: () => "email expected",
+    invalid_uuid: () => "uuid expected",
+    invalid_url: () => "url expected",
+    invalid_date: () => "ISO 8601 date expected",
+    invalid_datetime: () => "ISO 8601 date-time expected",
+    invalid_base64: () => "base64 string expected",
+    invalid_date_value: () => "valid date expected",
+    invalid_instance: (error) =>
+      `instance of ${String(param(error, "class"))} expected`,
+    not_integer: () => "integer expected",
+    not_safe_integer: () => "safe integer expected",
+    not_finite: () => "finite number expected",
+    too_small: (error) =>
+      `number greater than ${param(error, "inclusive") ? "or equal to " : ""}${param(error, "min")} expected`,
+    too_big: (error) =>
+      `number less than ${param(error, "inclusive") ? "or equal to " : ""}${param(error, "max")} expected`,
+    not_multiple_of: (error) =>
+      `multiple of ${param(error, "divisor")} expected`,
+    not_positive: () => "positive number expected",
+    not_negative: () => "negative number expected",
+    invalid_numeric_string: () => "numeric string expected",
+    invalid_integer_string: () => "integer string expected",
+    invalid_boolean_string: () => "boolean string expected",
+    invalid_date_string: () => "ISO 8601 date or date-time expected",
+    invalid_duration: () => "duration expected",
+    missing_variable: () => "environment variable expected",
+    conflicting_query_key: () => "either a value or nested keys expected",
+    invalid_json: (error) =>
+      `invalid JSON, ${error.expected} expected at line ${param(error, "line")}, column ${param(error, "column")}`,
+    invalid_yaml: (error) =>
+      `invalid YAML, ${error.expected} expected at line ${param(error, "line")}, column ${param(error, "column")}`,
+    invalid_toml: (error) =>
+      `invalid TOML, ${error.expected} expected at line ${param(error, "line")}, column ${param(error, "column")}`,
+  },
+  atPath: (message, path) => `${message} at path "${path}"`,
+};
+
+/**
+ * Builds a formatter from a locale catalog. Errors whose code the catalog
+ * does not know, including custom ones without a code, keep their `reason`.
+ *
+ * @example
+ * formatWith({ messages: { ...en.messages, ...de }, atPath: (m, p) => `${m} bei "${p}"` })
+ */
+export const formatWith =
+  (catalog: MessageCatalog): MessageFormatter =>
+  (error, path) => {
+    const message =
+      error.code !== undefined && Object.hasOwn(catalog.messages, error.code)
+        ? catalog.messages[error.code]
+        : undefined;
+    return catalog.atPath(message ? message(error) : error.reason, path);
+  };
+
+export interface FormatOptions {
+  readonly formatMessage?: MessageFormatter;
+  readonly renderPath?: PathRenderer;
+}
+
+/**
+ * Renders each error as a line of text, in English
+ * with JSON Pointer paths unless told otherwise.
+ */
+export const formatErrors = (
+  errors: ReadonlyArray<ParserErrorInfo>,
+  {
+    formatMessage = formatWith(en),
+    renderPath = jsonPointer,
+  }: FormatOptions = {},
+): string[] =>
+  errors.map((error) => formatMessage(error, renderPath(error.path)));
@@ -1,13 +1,100 @@
-import { recover } from "./utils";
+import { typeOf } from "./utils";
 
-export class ParserError extends Error {
-  static readonly recover = recover(ParserError);
+/**
+ * Machine-readable description of a failure, alongside its `reason`.
+ *
+ * `code` is stable across releases and safe to branch on,
+ * `expected` and `received` describe the mismatch in short words,
+ * and `params` holds the values the check was configured with.
+ */
+export interface ParserErrorDetails {
+  readonly code?: string;
+  readonly expected?: string;
+  readonly received?: string;
+  readonly params?: Readonly<Record<string, unknown>>;
+}
+
+export interface ParserErrorInfo extends ParserErrorDetails {
+  readonly reason: string;
+  readonly path: ReadonlyArray<string | number | symbol>;
+}
+
+export class ParserError extends Error implements ParserErrorInfo {
+  public readonly code?: string;
+  public readonly expected?: string;
+  public readonly received?: string;
+  public readonly params?: Readonly<Record<string, unknown>>;
 
   constructor(
     public readonly reason: string,
     public readonly path: ReadonlyArray<string | number | symbol>,
+    { code, expected, received, params }: ParserErrorDetails = {},
   ) {
     super(reason);
     this.name = "ParserError";
+    this.code = code;
+    this.expected = expected;
+    this.received = received;
+    this.params = params;
+  }
+
+  /**
+   * Every failure this error stands for. A plain error stands for itself.
+   */
+  get errors(): ReadonlyArray<ParserError> {
+    return [this];
+  }
+}
+
+/**
+ * Several failures gathered while parsing in error-collecting mode.
+ * Reports the first of them as its own `reason` and `path`.
+ */
+export class AggregateParserError extends ParserError {
+  static of(errors: ReadonlyArray<ParserErrorInfo>): ParserError {
+    const flat = errors.flatMap((error) =>
+      error instanceof ParserError
+        ? error.errors
+        : [new ParserError(error.reason, error.path, error)],
+    );
+    const [first] = flat;
+    if (first === undefined) {
+      throw new RangeError("at least one error expected");
+    }
+    return flat.length === 1 ? first : new AggregateParserError(first, flat);
+  }
+
+  private constructor(
+    first: ParserError,
+    private readonly collected: ReadonlyArray<ParserError>,
+  ) {
+    super(first.reason, first.path, first);
+    this.name = "AggregateParserError";
+  }
+
+  override get errors(): ReadonlyArray<ParserError> {
+    return this.collected;
+  }
+}
+
+export const invalidType = (
+  expected: string,
+  value: unknown,
+): ParserErrorDetails => ({
+  code: "invalid_type",
+  expected,
+  received: typeOf(value),
+});
+
+/**
+ * Thrown by `runParser` when no `onError` handler is given.
+ */
+export class ValidationError extends Error {
+  constructor(
+    public readonly errors: ReadonlyArray<ParserErrorInfo>,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ValidationError";
   }
 }
@@ -0,0 +1,93 @@
+import type { Parser } from "./parser";
+import type { OptionalField, UnknownKeys } from "./parsers/shape";
+
+/**
+ * Describes how a parser was built, so that tools like `toJsonSchema`
+ * can inspect parser definitions without running them.
+ */
+export type ParserMeta =
+  | { readonly kind: "string" }
+  | { readonly kind: "number" }
+  | {
+      readonly kind: "literal";
+      readonly value: string | number | null | undefined;
+    }
+  | { readonly kind: "object" }
+  | {
+      readonly kind: "enum";
+      readonly values: ReadonlyArray<string | number | boolean | null>;
+    }
+  | { readonly kind: "boolean" }
+  | { readonly kind: "bigint" }
+  | { readonly kind: "symbol" }
+  | { readonly kind: "date" }
+  | {
+      readonly kind: "instanceOf";
+      readonly ctor: abstract new (...args: any[]) => unknown;
+    }
+  | {
+      readonly kind: "field";
+      readonly name: string | number | symbol;
+      readonly parser: Parser<unknown, any>;
+    }
+  | { readonly kind: "list"; readonly item: Parser<unknown, any> }
+  | {
+      readonly kind: "iterable";
+      readonly item: Parser<unknown, any>;
+      readonly preserve: boolean;
+    }
+  | {
+      readonly kind: "tuple";
+      readonly items: ReadonlyArray<Parser<unknown, any>>;
+    }
+  | {
+      readonly kind: "record";
+      readonly key: Parser<unknown, any>;
+      readonly value: Parser<unknown, any>;
+    }
+  | {
+      readonly kind: "mapOf";
+      readonly key: Parser<unknown, any>;
+      readonly value: Parser<unknown, any>;
+    }
+  | { readonly kind: "setOf"; readonly item: Parser<unknown, any> }
+  | {
+      readonly kind: "shape";
+      readonly shape: Readonly<
+        Record<string, Parser<unknown, any> | OptionalField<unknown, any>>
+      >;
+      readonly unknownKeys: UnknownKeys;
+    }
+  | {
+      readonly kind: "taggedUnion";
+      readonly tag: string | number | symbol;
+      readonly branches: Readonly<Record<string, Parser<unknown, any>>>;
+    }
+  | {
+      readonly kind: "union";
+      readonly options: ReadonlyArray<Parser<unknown, any>>;
+    }
+  | { readonly kind: "optional"; readonly parser: Parser<unknown, any> }
+  | {
+      readonly kind: "default";
+      readonly parser: Parser<unknown, any>;
+      readonly value: () => unknown;
+    }
+  | {
+      readonly kind: "nullable";
+      readonly parser: Parser<unknown, any>;
+      readonly nullish: boolean;
+    }
+  | { readonly kind: "transform"; readonly parser: Parser<unknown, any> }
+  | { readonly kind: "map"; readonly parser: Parser<unknown, any> }
+  | {
+      readonly kind: "andThen";
+      readonly parser: Parser<unknown, any>;
+      readonly next: (value: any) => Parser<unknown, any>;
+    }
+  | { readonly kind: "recover"; readonly parser: Parser<unknown, any> }
+  | { readonly kind: "success"; readonly value: unknown }
+  | { readonly kind: "fail"; readonly reason: string }
+  | { readonly kind: "lazy"; readonly get: () => Parser<unknown, any> }
+  | { readonly kind: "combine" }
+  | { readonly kind: "custom" };
@@ -1,10 +1,124 @@
-import { ParserError } from "./parser-error";
+import { ParserErrorDetails, ParserErrorInfo } from "./parser-error";
 import { ParserState } from "./parser-state";
 
+export interface ParserSuccess<T, S> {
+  readonly success: true;
+  readonly value: T;
+  readonly state: ParserState<S>;
+}
+
+export interface ParserFailure {
+  readonly success: false;
+  readonly errors: readonly [ParserErrorInfo, ...ParserErrorInfo[]];
+}
+
+export type ParserResult<T, S> = ParserSuccess<T, S> | ParserFailure;
+
 export const ok = <T, S>(
   val: T,
   state: ParserState<S>,
-): readonly [T, ParserState<S>] => [val, state] as const;
-export const err = <S>(reason: string, state: ParserState<S>): never => {
-  throw new ParserError(reason, state.path);
+): ParserSuccess<T, S> => ({ success: true, value: val, state });
+
+export const failure = (
+  errors: ReadonlyArray<ParserErrorInfo>,
+): ParserFailure => {
+  if (errors.length === 0) {
+    throw new RangeError("at least one error expected");
+  }
+  return {
+    success: false,
+    errors: errors as ParserFailure["errors"],
+  };
+};
+
+export const err = <S>(
+  reason: string,
+  state: ParserState<S>,
+  details?: ParserErrorDetails,
+): ParserFailure => failure([{ ...details, reason, path: state.path }]);
+
+/**
+ * Runs `count` steps in order, threading user state from one step
+ * to the next. Stops at the first failure unless errors are being collected.
+ */
+export const runAll = <T, S>(
+  ctx: ParserState<S>,
+  count: number,
+  step: (idx: number, ctx: ParserState<S>) => ParserResult<T, S>,
+): ParserResult<T[], S> => {
+  const results: T[] = [];
+  const errors: ParserErrorInfo[] = [];
+  for (let idx = 0; idx < count; idx++) {
+    const res = step(idx, ctx);
+    if (res.success) {
+      results.push(res.value);
+      // most steps leave the user state as it was
+      if (res.state.state !== ctx.state) {
+        ctx = ctx.withStateOf(res.state);
+      }
+    } else if (ctx.collectErrors) {
+      errors.push(...res.errors);
+    } else {
+      return res;
+    }
+  }
+  return errors.length > 0 ? failure(errors) : ok(results, ctx);
+};
+
+/**
+ * Async `runAll`. With a `concurrency` above one, up to that many steps
+ * run at once, all starting from `ctx`: user state changes made by
+ * concurrent steps are not threaded. Failures are reported in step order.
+ */
+export const runAllAsync = async <T, S>(
+  ctx: ParserState<S>,
+  count: number,
+  step: (idx: number, ctx: ParserState<S>) => Promise<ParserResult<T, S>>,
+  concurrency = 1,
+): Promise<ParserResult<T[], S>> => {
+  if (concurrency <= 1) {
+    const results: T[] = [];
+    const errors: ParserErrorInfo[] = [];
+    for (let idx = 0; idx < count; idx++) {
+      const res = await step(idx, ctx);
+      if (res.success) {
+        results.push(res.value);
+        ctx = ctx.withStateOf(res.state);
+      } else if (ctx.collectErrors) {
+        errors.push(...res.errors);
+      } else {
+        return res;
+      }
+    }
+    return errors.length > 0 ? failure(errors) : ok(results, ctx);
+  }
+
+  const results = new Array<T>(count);
+  const failures: ParserFailure[] = [];
+  let next = 0;
+  let stopped = false;
+  const worker = async () => {
+    while (!stopped && next < count) {
+      const idx = next++;
+      const res = await step(idx, ctx);
+      if (res.success) {
+        results[idx] = res.value;
+      } else {
+        failures[idx] = res;
+        stopped = !ctx.collectErrors;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, count) }, worker),
+  );
+
+  const failed = failures.filter(Boolean);
+  const [first] = failed;
+  if (first === undefined) {
+    return ok(results, ctx);
+  }
+  return ctx.collectErrors
+    ? failure(failed.flatMap((res) => res.errors))
+    : first;
 };
@@ -1,6 +1,12 @@
 export class ParserState<S> {
-  static empty<S>(input: unknown, initialState: S) {
-    return new ParserState<S>(input, [], new Set(), initialState);
+  static empty<S>(input: unknown, initialState: S, collectErrors = false) {
+    return new ParserState<S>(
+      input,
+      [],
+      new Set(),
+      initialState,
+      collectErrors,
+    );
   }
 
   protected constructor(
@@ -8,6 +14,16 @@ export class ParserState<S> {
     readonly path: ReadonlyArray<string | number | symbol>,
     readonly visited: Set<unknown>,
     readonly state: S,
+    /**
+     * When set, collection parsers keep going after a failure
+     * and report every error at once.
+     */
+    readonly collectErrors: boolean,
+    /**
+     * Set while parsing a property that is not there, until a parser
+     * such as `withDefault` fills it in.
+     */
+    readonly missing = false,
   ) {}
 
   getPath(): (string | number | symbol)[] {
@@ -20,15 +36,68 @@ export class ParserState<S> {
       this.path,
       this.visited,
       updater(this.state),
+      this.collectErrors,
+      this.missing,
+    );
+  }
+
+  /**
+   * Takes the user state of a nested scope back into this one,
+   * keeping this scope's input, path and visited targets.
+   */
+  withStateOf(nested: ParserState<S>): ParserState<S> {
+    return nested.state === this.state
+      ? this
+      : new ParserState(
+          this.input,
+          this.path,
+          this.visited,
+          nested.state,
+          this.collectErrors,
+          this.missing,
+        );
+  }
+
+  /**
+   * Swaps the input for a decoded form of it, at the same path.
+   */
+  withInput(input: unknown): ParserState<S> {
+    return new ParserState(
+      input,
+      this.path,
+      this.visited,
+      this.state,
+      this.collectErrors,
+      this.missing,
     );
   }
 
+  /**
+   * Marks the input as a missing property, or as filled in.
+   */
+  withMissing(missing: boolean): ParserState<S> {
+    return missing === this.missing
+      ? this
+      : new ParserState(
+          this.input,
+          this.path,
+          this.visited,
+          this.state,
+          this.collectErrors,
+          missing,
+        );
+  }
+
   visiting(path: string | symbol | number, target: unknown): ParserState<S> {
     return new ParserState(
       target,
       [...this.path, path],
-      new Set([...this.visited, target]),
+      // only objects can lead back to themselves
+      typeof target === "object" && target !== null
+        ? new Set(this.visited).add(target)
+        : this.visited,
       this.state,
+      this.collectErrors,
     );
   }
 }
@@ -1,10 +1,16 @@
-import { attempt, toJsonPointerRefToken } from "./utils";
-import { ParserError } from "./parser-error";
-import { err, ok } from "./parser-result";
+import { attempt } from "./utils";
+import { FormatOptions, formatErrors } from "./messages";
+import {
+  AggregateParserError,
+  ParserError,
+  ParserErrorDetails,
+  ParserErrorInfo,
+  ValidationError,
+} from "./parser-error";
+import { err, failure, ok, ParserResult } from "./parser-result";
+import { ParserMeta } from "./parser-meta";
 import { ParserState } from "./parser-state";
 
-type ParserResult<T, S> = readonly [T, ParserState<S>];
-
 export interface Parser<T, S> {
   run(ctx: ParserState<S>): ParserResult<T, S>;
   map<R>(f: (t: T) => R): Parser<R, S>;
@@ -12,33 +18,58 @@ export interface Parser<T, S> {
   recover<R>(fn: (err: ParserError) => Parser<R, S>): Parser<T | R, S>;
   orElse<R>(other: Parser<R, S>): Parser<T | R, S>;
   readonly optional: Parser<undefined | T, S>;
+  readonly meta: ParserMeta;
 }
 
 export const parser = <T, S = any>(
   run: (st: ParserState<S>) => ParserResult<T, S>,
+  meta: ParserMeta = { kind: "custom" },
 ): Parser<T, S> => {
   const self: Parser<T, S> = {
     run,
+    meta,
     map: (f) =>
-      parser((ctx) => {
-        const [res, newCtx] = run(ctx);
-        return ok(f(res), newCtx);
-      }),
+      parser(
+        (ctx) => {
+          const res = run(ctx);
+          return res.success ? ok(f(res.value), res.state) : res;
+        },
+        { kind: "map", parser: self },
+      ),
     andThen: <R>(f: (a: T) => Parser<R, S>) =>
-      parser((st) => {
-        const [a, newSt] = run(st);
-        return f(a).run(newSt);
-      }),
+      parser(
+        (st) => {
+          const res = run(st);
+          return res.success ? f(res.value).run(res.state) : res;
+        },
+        { kind: "andThen", parser: self, next: f },
+      ),
     recover: <R>(fn: (err: ParserError) => Parser<R, S>): Parser<T | R, S> =>
-      parser((st) =>
-        attempt<ParserResult<T | R, S>>(
-          () => run(st),
-          ParserError.recover((e) => fn(e).run(st)),
-        ),
+      parser<T | R, S>(
+        (st) => {
+          const res = run(st);
+          return res.success
+            ? res
+            : fn(AggregateParserError.of(res.errors)).run(st);
+        },
+        { kind: "recover", parser: self },
+      ),
+    orElse: <R>(other: Parser<R, S>) =>
+      parser<T | R, S>(
+        (st) => {
+          const res = run(st);
+          return res.success ? res : other.run(st);
+        },
+        { kind: "union", options: [self, other] },
       ),
-    orElse: <R>(other: Parser<R, S>) => self.recover(() => other),
     get optional() {
-      return self.orElse(success(undefined));
+      return parser<undefined | T, S>(
+        (st) => {
+          const res = run(st);
+          return res.success ? res : ok(undefined, st);
+        },
+        { kind: "optional", parser: self },
+      );
     },
   };
 
@@ -54,79 +85,157 @@ interface ParserBind<S> {
   <R>(parser: Parser<R, S>): R;
 }
 
+const combineMeta: ParserMeta = { kind: "combine" };
+
+/**
+ * A failed `bind` yields `undefined` instead of throwing, and the block
+ * runs on to its end: later binds are skipped and return `undefined` too,
+ * and the failure is reported in place of what the block returns.
+ * In error-collecting mode later binds still run, so their failures are
+ * reported as well. Should the block crash on such an `undefined`,
+ * the failures so far are reported. Errors thrown while no `bind`
+ * has failed are rethrown.
+ */
 export const combine = <T, S = void>(
   parsers: (bind: ParserBind<S>) => T,
 ): Parser<T, S> =>
-  parser((state) =>
-    ok(
-      parsers((parser) => {
-        const [res, nextState] = parser.run(state);
-        state = nextState;
-        return res;
-      }),
-      state,
-    ),
-  );
+  parser((state) => {
+    const errors: ParserErrorInfo[] = [];
+    return attempt<ParserResult<T, S>>(
+      () => {
+        const result = parsers((parser) => {
+          if (errors.length > 0 && !state.collectErrors) {
+            return undefined as never;
+          }
+          const res = parser.run(state);
+          if (res.success) {
+            state = res.state;
+            return res.value;
+          }
+          errors.push(...res.errors);
+          return undefined as never;
+        });
+        return errors.length > 0 ? failure(errors) : ok(result, state);
+      },
+      (e) => {
+        if (errors.length === 0) {
+          throw e;
+        }
+        // a crash after a failed bind most likely comes
+        // from the `undefined` it yielded
+        return failure(errors);
+      },
+    );
+  }, combineMeta);
+
+/**
+ * Defers building a parser until it first runs,
+ * so that recursive parsers can refer to themselves.
+ *
+ * @example
+ * const parseNode: Parser<Node, any> = lazy(() =>
+ *   parseShape({ value: parseNum, children: parseList(parseNode) }),
+ * );
+ */
+export const lazy = <T, S = any>(get: () => Parser<T, S>): Parser<T, S> => {
+  let resolved: Parser<T, S> | undefined;
+  return parser((ctx) => (resolved ??= get()).run(ctx), { kind: "lazy", get });
+};
+
+export interface RunParserParams extends FormatOptions {
+  input: unknown;
+  /**
+   * Keep parsing after the first failure and report every error found.
+   */
+  collectErrors?: boolean;
+}
 
 export function runParser<T>(
   parser: Parser<T, void>,
-  params: { input: unknown },
+  params: RunParserParams,
 ): T;
 export function runParser<T, S>(
   parser: Parser<T, S>,
-  params: { input: unknown; initialState: S },
+  params: RunParserParams & { initialState: S },
 ): T;
 export function runParser<T1, T2>(
   parser: Parser<T1, void>,
-  params: { input: unknown },
-  onError: (error: {
-    reason: string;
-    path: ReadonlyArray<string | number | symbol>;
-  }) => T2,
+  params: RunParserParams,
+  onError: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
 ): T1 | T2;
 export function runParser<T1, T2, S>(
   parser: Parser<T1, S>,
-  params: { input: unknown; initialState: S },
-  onError: (error: {
-    reason: string;
-    path: ReadonlyArray<string | number | symbol>;
-  }) => T2,
+  params: RunParserParams & { initialState: S },
+  onError: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
 ): T1 | T2;
 export function runParser<T1, T2, S>(
   parser: Parser<T1, S | void>,
-  { input, initialState }: { input: unknown; initialState?: S },
-  onError?: (error: {
-    reason: string;
-    path: ReadonlyArray<string | number | symbol>;
-  }) => T2,
+  {
+    input,
+    initialState,
+    collectErrors = false,
+    ...format
+  }: RunParserParams & { initialState?: S },
+  onError?: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
 ): T1 | T2 {
-  return attempt<T1 | T2>(
-    () => parser.run(ParserState.empty(input, initialState))[0],
-    ParserError.recover(({ reason, path }) => {
-      if (onError) {
-        return onError({ reason, path });
-      }
-      const prettyPath = path.map(toJsonPointerRefToken).join("");
-
-      throw new Error(`${reason} at path "${prettyPath}"`);
-    }),
+  return settle(
+    parser.run(ParserState.empty(input, initialState, collectErrors)),
+    format,
+    onError,
   );
 }
 
+/**
+ * Hands a finished run over to the caller: its value,
+ * the `onError` handler's result, or a thrown `ValidationError`.
+ */
+export const settle = <T1, T2>(
+  result: ParserResult<T1, unknown>,
+  format: FormatOptions,
+  onError?: (
+    error: ParserErrorInfo & { errors: ReadonlyArray<ParserErrorInfo> },
+  ) => T2,
+): T1 | T2 => {
+  if (result.success) {
+    return result.value;
+  }
+
+  const { errors } = result;
+  if (onError) {
+    const [first] = errors;
+    return onError({ ...first, errors });
+  }
+
+  throw validationError(errors, format);
+};
+
+export const validationError = (
+  errors: ReadonlyArray<ParserErrorInfo>,
+  format: FormatOptions,
+) => new ValidationError(errors, formatErrors(errors, format).join("\n"));
+
 export const input: Parser<unknown, any> = parser((state) =>
   ok(state.input, state),
 );
 
 export const success = <T, S>(val: T): Parser<T, S> =>
-  parser((ctx) => ok(val, ctx));
+  parser((ctx) => ok(val, ctx), { kind: "success", value: val });
 
-export const fail = <S>(reason: string): Parser<never, S> =>
-  parser((ctx) => err(reason, ctx));
+export const fail = <S>(
+  reason: string,
+  details?: ParserErrorDetails,
+): Parser<never, S> =>
+  parser((ctx) => err(reason, ctx, details), { kind: "fail", reason });
 
-export const path = parser<ReadonlyArray<string | number | symbol>>((ctx) => [
-  [...ctx.path] as const,
-  ctx,
-]);
+export const path = parser<ReadonlyArray<string | number | symbol>>((ctx) =>
+  ok([...ctx.path] as const, ctx),
+);
 
 export const updateState = <S>(updater: (state: S) => S) => {
   return parser<S, S>((ctx) => {
@@ -135,7 +244,7 @@ export const updateState = <S>(updater: (state: S) => S) => {
   });
 };
 
-export const getState = <S>() => parser<S, S>((st) => [st.state, st]);
+export const getState = <S>() => parser<S, S>((st) => ok(st.state, st));
 
 export const withState = <S>(
   _combine: <T>(parsers: (bind: ParserBind<S>) => T) => Parser<T, S>,
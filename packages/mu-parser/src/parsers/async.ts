@@ -0,0 +1,51 @@
+import { AnyParser, AsyncParser, asyncParser } from "../async-parser";
+import { invalidType } from "../parser-error";
+import { err, ok, runAllAsync } from "../parser-result";
+import { ParserState } from "../parser-state";
+import { enterField, missingProperty } from "./parsers";
+
+export const parseFieldAsync = <T, S>(
+  name: string | number | symbol,
+  fieldParser: AnyParser<T, S>,
+): AsyncParser<T, S> =>
+  asyncParser(async (ctx) => {
+    const field = enterField(ctx, name);
+    if (field === undefined) {
+      const res = await fieldParser.run(
+        ctx.visiting(name, undefined).withMissing(true),
+      );
+      return res.success && !res.state.missing
+        ? ok(res.value, ctx.withStateOf(res.state))
+        : missingProperty(ctx, name);
+    }
+    if (!(field instanceof ParserState)) {
+      return field;
+    }
+    const res = await fieldParser.run(field);
+    return res.success ? ok(res.value, ctx.withStateOf(res.state)) : res;
+  });
+
+export interface ParseListAsyncOptions {
+  /**
+   * How many items to check at once. Items checked concurrently
+   * all see the state the list started with.
+   */
+  readonly concurrency?: number;
+}
+
+export const parseListAsync = <T, S>(
+  itemParser: AnyParser<T, S>,
+  { concurrency = 1 }: ParseListAsyncOptions = {},
+): AsyncParser<T[], S> =>
+  asyncParser(async (ctx) => {
+    const target = ctx.input;
+    if (target instanceof Array) {
+      return runAllAsync(
+        ctx,
+        target.length,
+        async (idx, ctx) => itemParser.run(ctx.visiting(idx, target[idx])),
+        concurrency,
+      );
+    }
+    return err("array expected", ctx, invalidType("array", target));
+  });
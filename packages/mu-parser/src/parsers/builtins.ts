@@ -0,0 +1,243 @@
+import { Parser, parser } from "../parser";
+import { invalidType } from "../parser-error";
+import { err, failure, ok, runAll } from "../parser-result";
+import { ParserState } from "../parser-state";
+import { isCalendarDate, isDateTime } from "./strings";
+
+export const parseBoolean = parser<boolean>(
+  (ctx) => {
+    const target = ctx.input;
+    if (typeof target === "boolean") {
+      return ok(target, ctx);
+    }
+    return err("boolean expected", ctx, invalidType("boolean", target));
+  },
+  { kind: "boolean" },
+);
+
+export const parseBigInt = parser<bigint>(
+  (ctx) => {
+    const target = ctx.input;
+    if (typeof target === "bigint") {
+      return ok(target, ctx);
+    }
+    return err("bigint expected", ctx, invalidType("bigint", target));
+  },
+  { kind: "bigint" },
+);
+
+export const parseSymbol = parser<symbol>(
+  (ctx) => {
+    const target = ctx.input;
+    if (typeof target === "symbol") {
+      return ok(target, ctx);
+    }
+    return err("symbol expected", ctx, invalidType("symbol", target));
+  },
+  { kind: "symbol" },
+);
+
+const TRUE_STRINGS = ["true", "1", "yes", "on"];
+const FALSE_STRINGS = ["false", "0", "no", "off"];
+
+/**
+ * Accepts booleans as they are and, in any case, the strings
+ * `true`, `1`, `yes`, `on` and `false`, `0`, `no`, `off`,
+ * such as environment variables or query parameters.
+ */
+export const coerceBoolean = parser<boolean>((ctx) => {
+  const target = ctx.input;
+  if (typeof target === "boolean") {
+    return ok(target, ctx);
+  }
+  if (typeof target === "string") {
+    const text = target.trim().toLowerCase();
+    if (TRUE_STRINGS.includes(text)) {
+      return ok(true, ctx);
+    }
+    if (FALSE_STRINGS.includes(text)) {
+      return ok(false, ctx);
+    }
+    return err("boolean string expected", ctx, {
+      code: "invalid_boolean_string",
+    });
+  }
+  return err(
+    "boolean or boolean string expected",
+    ctx,
+    invalidType("boolean or boolean string", target),
+  );
+});
+
+/**
+ * Accepts `URL` instances as they are and absolute URL strings,
+ * converted to `URL`s.
+ */
+export const coerceUrl = parser<URL>((ctx) => {
+  const target = ctx.input;
+  if (target instanceof URL) {
+    return ok(target, ctx);
+  }
+  if (typeof target === "string") {
+    try {
+      return ok(new URL(target.trim()), ctx);
+    } catch {
+      return err("url expected", ctx, { code: "invalid_url" });
+    }
+  }
+  return err(
+    "url or url string expected",
+    ctx,
+    invalidType("url or url string", target),
+  );
+});
+
+/**
+ * Accepts `Date` instances holding a valid time.
+ */
+export const parseDate = parser<Date>(
+  (ctx) => {
+    const target = ctx.input;
+    if (!(target instanceof Date)) {
+      return err("date expected", ctx, invalidType("date", target));
+    }
+    if (Number.isNaN(target.getTime())) {
+      return err("valid date expected", ctx, { code: "invalid_date_value" });
+    }
+    return ok(target, ctx);
+  },
+  { kind: "date" },
+);
+
+/**
+ * Accepts valid `Date` instances as they are and ISO 8601 dates
+ * or date-times with an offset, converted to `Date`s.
+ * Dates without a time are midnight UTC.
+ */
+export const coerceDate = parser<Date>((ctx) => {
+  const target = ctx.input;
+  if (target instanceof Date) {
+    return Number.isNaN(target.getTime())
+      ? err("valid date expected", ctx, { code: "invalid_date_value" })
+      : ok(target, ctx);
+  }
+  if (typeof target === "string") {
+    const text = target.trim();
+    return isCalendarDate(text) || isDateTime(text)
+      ? ok(new Date(text), ctx)
+      : err("ISO 8601 date or date-time expected", ctx, {
+          code: "invalid_date_string",
+        });
+  }
+  return err(
+    "date or date string expected",
+    ctx,
+    invalidType("date or date string", target),
+  );
+});
+
+export const parseInstanceOf = <T>(
+  ctor: abstract new (...args: any[]) => T,
+): Parser<T, any> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (target instanceof ctor) {
+        return ok(target, ctx);
+      }
+      return err(`instance of ${ctor.name} expected`, ctx, {
+        code: "invalid_instance",
+        expected: ctor.name,
+        received:
+          typeof target === "object" && target !== null
+            ? target.constructor?.name
+            : String(target),
+        params: { class: ctor.name },
+      });
+    },
+    { kind: "instanceOf", ctor },
+  );
+
+/**
+ * Where a map entry appears in error paths: its key,
+ * or the entry's position when the key cannot be a path segment.
+ */
+const entrySegment = (key: unknown, idx: number) =>
+  typeof key === "string" || typeof key === "number" || typeof key === "symbol"
+    ? key
+    : idx;
+
+const isVisited = <S>(ctx: ParserState<S>, target: unknown) =>
+  typeof target === "object" && target !== null && ctx.visited.has(target);
+
+/**
+ * Parses a `Map`, validating each key with `keyParser`
+ * and each value with `valueParser`.
+ */
+export const parseMap = <K, V, S>(
+  keyParser: Parser<K, S>,
+  valueParser: Parser<V, S>,
+): Parser<Map<K, V>, S> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (!(target instanceof Map)) {
+        return err("map expected", ctx, invalidType("map", target));
+      }
+      const entries = [...target.entries()];
+      const parsed = runAll(ctx, entries.length, (idx, ctx) => {
+        const [key, value] = entries[idx] as [unknown, unknown];
+        if (isVisited(ctx, key) || isVisited(ctx, value)) {
+          return err("circular reference detected", ctx, {
+            code: "circular_reference",
+          });
+        }
+        const segment = entrySegment(key, idx);
+        const keyRes = keyParser.run(ctx.visiting(segment, key));
+        const valueRes = valueParser.run(
+          (keyRes.success ? ctx.withStateOf(keyRes.state) : ctx).visiting(
+            segment,
+            value,
+          ),
+        );
+        if (keyRes.success && valueRes.success) {
+          return ok(
+            [keyRes.value, valueRes.value] as const,
+            ctx.withStateOf(valueRes.state),
+          );
+        }
+        return failure([
+          ...(keyRes.success ? [] : keyRes.errors),
+          ...(valueRes.success ? [] : valueRes.errors),
+        ]);
+      });
+      return parsed.success ? ok(new Map(parsed.value), parsed.state) : parsed;
+    },
+    { kind: "mapOf", key: keyParser, value: valueParser },
+  );
+
+/**
+ * Parses a `Set`, validating each item with `itemParser`.
+ * Items appear in error paths by their position in iteration order.
+ */
+export const parseSet = <T, S>(itemParser: Parser<T, S>): Parser<Set<T>, S> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (!(target instanceof Set)) {
+        return err("set expected", ctx, invalidType("set", target));
+      }
+      const items = [...target];
+      const parsed = runAll(ctx, items.length, (idx, ctx) => {
+        const item = items[idx];
+        if (isVisited(ctx, item)) {
+          return err("circular reference detected", ctx, {
+            code: "circular_reference",
+          });
+        }
+        return itemParser.run(ctx.visiting(idx, item));
+      });
+      return parsed.success ? ok(new Set(parsed.value), parsed.state) : parsed;
+    },
+    { kind: "setOf", item: itemParser },
+  );
@@ -0,0 +1,173 @@
+import { codec, Codec, identityCodec, mapCodec } from "../codec";
+import { Parser } from "../parser";
+import { ParserState } from "../parser-state";
+import { defineOwn } from "../utils";
+import { withDefault } from "./defaults";
+import { oneOf, parseList, parseStr, parseTaggedUnion } from "./parsers";
+import {
+  Flatten,
+  OptionalField,
+  parseShape,
+  RequiredKeys,
+  ShapeParser,
+  ShapeValue,
+  UnknownKeys,
+} from "./shape";
+import { isoDateTime } from "./strings";
+
+export type CodecShape<S> = Record<
+  string,
+  Codec<any, any, S> | OptionalField<any, S, Codec<any, any, S>>
+>;
+
+type FieldOutput<F> =
+  F extends OptionalField<any, any, Codec<any, infer O, any>>
+    ? O | undefined
+    : F extends Codec<any, infer O, any>
+      ? O
+      : never;
+
+export type ShapeOutput<Sh, U extends UnknownKeys = "strip"> = Flatten<
+  { [K in RequiredKeys<Sh>]: FieldOutput<Sh[K]> } & {
+    [K in Exclude<keyof Sh, RequiredKeys<Sh>>]?: FieldOutput<Sh[K]>;
+  } & (U extends "passthrough" ? Record<string, unknown> : unknown)
+>;
+
+export interface ShapeCodec<Sh, U extends UnknownKeys, S>
+  extends ShapeParser<Sh, U, S> {
+  encode(value: ShapeValue<Sh, U>, state?: S): ShapeOutput<Sh, U>;
+}
+
+/**
+ * `parseShape` for codecs. Encoding keeps the keys the value has:
+ * a missing optional field stays missing, and with `passthrough`
+ * unknown keys are copied as they are.
+ *
+ * @example
+ * shapeCodec({ name: identityCodec(parseStr), born: optional(dateCodec) })
+ */
+export const shapeCodec = <
+  Sh extends CodecShape<S>,
+  U extends UnknownKeys = "strip",
+  S = any,
+>(
+  shape: Sh,
+  options: { unknownKeys?: U } = {},
+): ShapeCodec<Sh, U, S> => {
+  const decode = parseShape<Sh, U, S>(shape, options);
+  const keys = Object.keys(shape);
+  const encode = (value: Record<string, unknown>, state?: S) => {
+    const result: Record<string, unknown> =
+      decode.unknownKeys === "passthrough" ? { ...value } : {};
+    for (const key of keys) {
+      const field = shape[key];
+      if (field instanceof OptionalField) {
+        if (Object.hasOwn(value, key)) {
+          const item = value[key];
+          defineOwn(
+            result,
+            key,
+            item === undefined ? item : field.parser.encode(item, state),
+          );
+        }
+      } else if (field) {
+        defineOwn(result, key, field.encode(value[key], state));
+      }
+    }
+    return result;
+  };
+  return Object.assign(decode, { encode }) as unknown as ShapeCodec<Sh, U, S>;
+};
+
+export const listCodec = <T, O, S = any>(
+  item: Codec<T, O, S>,
+): Codec<T[], O[], S> =>
+  codec(parseList(item), (values, state) =>
+    values.map((value) => item.encode(value, state)),
+  );
+
+/**
+ * Decodes a missing value to `undefined` and encodes `undefined` as it is.
+ * Values that are present must decode with `inner`.
+ */
+export const optionalCodec = <T, O, S = any>(
+  inner: Codec<T, O, S>,
+): Codec<T | undefined, O | undefined, S> =>
+  codec(
+    withDefault(inner as Parser<T | undefined, S>, undefined),
+    (value, state) =>
+      value === undefined ? undefined : inner.encode(value, state),
+  );
+
+type Decoded<C> = C extends Codec<infer T, any, any> ? T : never;
+
+type Encoded<C> = C extends Codec<any, infer O, any> ? O : never;
+
+const roundTrips = <T, O, S>(option: Codec<T, O, S>, value: T, state: S) => {
+  let encoded: O;
+  try {
+    encoded = option.encode(value, state);
+  } catch (e) {
+    // the value is not of the type the option encodes
+    if (e instanceof TypeError) {
+      return undefined;
+    }
+    throw e;
+  }
+  return option.run(ParserState.empty(encoded, state)).success
+    ? { encoded }
+    : undefined;
+};
+
+/**
+ * `oneOf` for codecs. A value is encoded by the first option
+ * whose encoding it survives: encoding does not throw a `TypeError`
+ * and the result decodes again, with the given user state.
+ * Prefer `taggedUnionCodec` when the options have a tag.
+ */
+export const oneOfCodec = <C extends Codec<any, any, S>[], S = any>(
+  ...options: C
+): Codec<Decoded<C[number]>, Encoded<C[number]>, S> =>
+  codec(oneOf<Decoded<C[number]>[], S>(...options), (value, state) => {
+    for (const option of options) {
+      const matched = roundTrips(option, value, state as S);
+      if (matched) {
+        return matched.encoded;
+      }
+    }
+    throw new TypeError("value matches none of the codecs");
+  });
+
+/**
+ * `parseTaggedUnion` for codecs, encoding with the branch named by the tag.
+ */
+export const taggedUnionCodec = <
+  T extends Record<string, Record<string | number | symbol, unknown>>,
+  O extends { [B in keyof T]: unknown },
+  S = any,
+>(
+  tag: string | number | symbol,
+  branches: { [B in keyof T]: Codec<T[B], O[B], S> },
+): Codec<T[keyof T], O[keyof T], S> =>
+  codec(
+    parseTaggedUnion<T, S>(
+      tag,
+      branches as { [B in keyof T]: Parser<T[B], S> },
+    ),
+    (value, state) => {
+      const name = String(value[tag]);
+      if (!Object.hasOwn(branches, name)) {
+        throw new TypeError(`unknown tag '${name}'`);
+      }
+      return branches[name as keyof T].encode(value, state);
+    },
+  );
+
+/**
+ * ISO 8601 date-time strings decoded to `Date`s and encoded back.
+ */
+export const dateCodec: Codec<Date, string> = mapCodec(
+  identityCodec(parseStr.andThen(isoDateTime)),
+  (text) => new Date(text),
+  (date) => date.toISOString(),
+);
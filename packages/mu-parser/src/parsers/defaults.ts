@@ -0,0 +1,140 @@
+import { codec, Codec } from "../codec";
+import { Infer, InferInput } from "../infer";
+import { Parser, parser } from "../parser";
+import { ok } from "../parser-result";
+
+const isCodec = <T, S>(inner: Parser<T, S>): inner is Codec<T, unknown, S> =>
+  typeof (inner as Partial<Codec<T, unknown, S>>).encode === "function";
+
+/**
+ * Whether a parser is known to succeed on `undefined`, so that
+ * `toJsonSchema` leaves its property out of `required`. Fields are
+ * filled in by running their parser on a missing property instead.
+ */
+export const fillsMissing = (fieldParser: Parser<unknown, any>): boolean => {
+  const meta = fieldParser.meta;
+  switch (meta.kind) {
+    case "default":
+      return true;
+    case "nullable":
+      return meta.nullish;
+    case "map":
+    case "andThen":
+    case "transform":
+    case "recover":
+      return fillsMissing(meta.parser);
+    case "union":
+      return meta.options.some(fillsMissing);
+    case "lazy":
+      return fillsMissing(meta.get());
+    default:
+      return false;
+  }
+};
+
+/**
+ * Succeeds with `fallback` when the input is `undefined`, such as
+ * a missing property, and runs `inner` otherwise. Unlike `orElse`,
+ * invalid values still fail. A function `fallback` is called
+ * for every missing value, so each gets a fresh one.
+ * Defaults of codecs are encoded like any other value.
+ *
+ * @example
+ * parseShape({ page: withDefault(parseNum, 1), tags: withDefault(parseList(parseStr), () => []) })
+ */
+export function withDefault<T, O, S>(
+  inner: Codec<T, O, S>,
+  fallback: T | (() => T),
+): Codec<T, O | undefined, S>;
+export function withDefault<T, S>(
+  inner: Parser<T, S>,
+  fallback: T | (() => T),
+): Parser<T, S>;
+export function withDefault<T, S>(
+  inner: Parser<T, S>,
+  fallback: T | (() => T),
+): Parser<T, S> {
+  const value =
+    typeof fallback === "function" ? (fallback as () => T) : () => fallback;
+  const decode = parser<T, S>(
+    (ctx) =>
+      ctx.input === undefined
+        ? ok(value(), ctx.withMissing(false))
+        : inner.run(ctx),
+    { kind: "default", parser: inner, value },
+  );
+  return isCodec(inner) ? codec(decode, inner.encode) : decode;
+}
+
+const nullableOf = <T, S>(inner: Parser<T, S>, nullish: boolean) => {
+  const decode = parser<T | null | undefined, S>(
+    (ctx) =>
+      ctx.input === null || (nullish && ctx.input === undefined)
+        ? ok(ctx.input, ctx.withMissing(false))
+        : inner.run(ctx),
+    { kind: "nullable", parser: inner, nullish },
+  );
+  return isCodec(inner)
+    ? codec(decode, (value, state) =>
+        value === null || value === undefined
+          ? value
+          : inner.encode(value, state),
+      )
+    : decode;
+};
+
+/**
+ * Accepts `null` as it is and runs `inner` on anything else.
+ */
+export function nullable<T, O, S>(
+  inner: Codec<T, O, S>,
+): Codec<T | null, O | null, S>;
+export function nullable<T, S>(inner: Parser<T, S>): Parser<T | null, S>;
+export function nullable<T, S>(inner: Parser<T, S>): Parser<T | null, S> {
+  return nullableOf(inner, false) as Parser<T | null, S>;
+}
+
+/**
+ * Accepts `null` and `undefined` as they are, including a missing property,
+ * and runs `inner` on anything else.
+ */
+export function nullish<T, O, S>(
+  inner: Codec<T, O, S>,
+): Codec<T | null | undefined, O | null | undefined, S>;
+export function nullish<T, S>(
+  inner: Parser<T, S>,
+): Parser<T | null | undefined, S>;
+export function nullish<T, S>(
+  inner: Parser<T, S>,
+): Parser<T | null | undefined, S> {
+  return nullableOf(inner, true);
+}
+
+/**
+ * Converts what `inner` parsed and back, as a codec whose encoded form
+ * is the input of `inner`: the encoded form of a codec, and otherwise
+ * the type `inner` succeeds with. `toJsonSchema` describes the input
+ * `inner` accepts.
+ *
+ * @example
+ * const cents = transform(parseNum.andThen(integer), (n) => n / 100, (amount) => Math.round(amount * 100));
+ * // Codec<number, number>, accepting integers
+ */
+export const transform = <P extends Parser<any, S>, O, S = any>(
+  inner: P,
+  decode: (value: Infer<P>) => O,
+  encode: (value: O) => Infer<P>,
+): Codec<O, InferInput<P>, S> =>
+  codec(
+    parser<O, S>(
+      (ctx) => {
+        const res = inner.run(ctx);
+        return res.success ? ok(decode(res.value), res.state) : res;
+      },
+      { kind: "transform", parser: inner },
+    ),
+    (value, state) =>
+      (isCodec(inner)
+        ? inner.encode(encode(value), state)
+        : encode(value)) as InferInput<P>,
+  );
@@ -1 +1,10 @@
 export * from "./parsers";
+export * from "./builtins";
+export * from "./iterables";
+export * from "./shape";
+export * from "./refine";
+export * from "./strings";
+export * from "./numbers";
+export * from "./async";
+export * from "./codecs";
+export * from "./defaults";
@@ -0,0 +1,144 @@
+import { Parser, parser } from "../parser";
+import { invalidType, ParserErrorInfo } from "../parser-error";
+import { err, failure, ok, runAll } from "../parser-result";
+import { ParserState } from "../parser-state";
+
+export interface ParseIterableOptions {
+  /**
+   * Rebuild the result as the same kind of collection as the input
+   * for arrays, typed arrays, sets and maps. Other iterables,
+   * such as generators, still come out as arrays.
+   */
+  readonly preserve?: boolean;
+}
+
+const isIterable = (target: unknown): target is Iterable<unknown> =>
+  typeof target === "object" &&
+  target !== null &&
+  typeof (target as Partial<Iterable<unknown>>)[Symbol.iterator] === "function";
+
+const isTypedArray = (source: unknown): source is ArrayBufferView =>
+  ArrayBuffer.isView(source) && !(source instanceof DataView);
+
+/**
+ * Errors for the parsed items a typed array like `source` cannot hold,
+ * such as numbers for a `BigInt64Array`.
+ */
+const typedArrayErrors = <S>(
+  source: ArrayBufferView,
+  items: unknown[],
+  ctx: ParserState<S>,
+): ParserErrorInfo[] => {
+  const expected =
+    source instanceof BigInt64Array || source instanceof BigUint64Array
+      ? "bigint"
+      : "number";
+  const errors = items.flatMap((item, idx) =>
+    typeof item === expected
+      ? []
+      : err(
+          `${expected} expected`,
+          ctx.visiting(idx, item),
+          invalidType(expected, item),
+        ).errors,
+  );
+  return ctx.collectErrors ? errors : errors.slice(0, 1);
+};
+
+const rebuild = (source: Iterable<unknown>, items: unknown[]) => {
+  if (isTypedArray(source)) {
+    // typed arrays share a static `from` on their constructors
+    const ctor = source.constructor as unknown as {
+      from(items: unknown[]): Iterable<unknown>;
+    };
+    return ctor.from(items);
+  }
+  if (source instanceof Set) {
+    return new Set(items);
+  }
+  if (source instanceof Map) {
+    return new Map(items as Array<[unknown, unknown]>);
+  }
+  return items;
+};
+
+/**
+ * `parseList` for any iterable object, such as typed arrays, sets
+ * or generators. Strings are not accepted, as for `parseList`.
+ *
+ * @example
+ * parseIterable(parseNum, { preserve: true }) // Float32Array in, Float32Array out
+ */
+export function parseIterable<T, S = any>(
+  itemParser: Parser<T, S>,
+  options?: { readonly preserve?: false },
+): Parser<T[], S>;
+export function parseIterable<T, S = any>(
+  itemParser: Parser<T, S>,
+  options: ParseIterableOptions,
+): Parser<Iterable<T>, S>;
+export function parseIterable<T, S>(
+  itemParser: Parser<T, S>,
+  { preserve = false }: ParseIterableOptions = {},
+): Parser<Iterable<T>, S> {
+  return parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (!isIterable(target)) {
+        return err("iterable expected", ctx, invalidType("iterable", target));
+      }
+      const items = [...target];
+      const parsed = runAll(ctx, items.length, (idx, ctx) =>
+        itemParser.run(ctx.visiting(idx, items[idx])),
+      );
+      if (!parsed.success || !preserve) {
+        return parsed;
+      }
+      const errors = isTypedArray(target)
+        ? typedArrayErrors(target, parsed.value, ctx)
+        : [];
+      return errors.length > 0
+        ? failure(errors)
+        : ok(rebuild(target, parsed.value) as Iterable<T>, parsed.state);
+    },
+    { kind: "iterable", item: itemParser, preserve },
+  );
+}
+
+export interface CoerceListOptions {
+  readonly separator?: string | RegExp;
+}
+
+/**
+ * Accepts arrays as they are and separated strings, such as `"a, b, c"`,
+ * split into trimmed items without the empty ones.
+ *
+ * @example
+ * coerceList(coerceNum, { separator: ";" }) // "1; 2" -> [1, 2]
+ */
+export const coerceList = <T, S = any>(
+  itemParser: Parser<T, S>,
+  { separator = "," }: CoerceListOptions = {},
+): Parser<T[], S> =>
+  parser((ctx) => {
+    const target = ctx.input;
+    const items =
+      typeof target === "string"
+        ? target
+            .split(separator)
+            .map((item) => item.trim())
+            .filter((item) => item !== "")
+        : Array.isArray(target)
+          ? target
+          : undefined;
+    if (!items) {
+      return err(
+        "array or separated string expected",
+        ctx,
+        invalidType("array or separated string", target),
+      );
+    }
+    return runAll(ctx, items.length, (idx, ctx) =>
+      itemParser.run(ctx.visiting(idx, items[idx])),
+    );
+  });
@@ -0,0 +1,172 @@
+import { parser } from "../parser";
+import { invalidType } from "../parser-error";
+import { err, ok } from "../parser-result";
+import { refinement } from "./refine";
+
+const NUMERIC = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+const INTEGER = /^[+-]?\d+$/;
+const DURATION = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d))+$/;
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/g;
+const MILLISECONDS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export const integer = refinement<number>(
+  { name: "integer", params: {} },
+  (value) => Number.isInteger(value),
+  { code: "not_integer", reason: "integer expected" },
+);
+
+export const safeInteger = refinement<number>(
+  { name: "safeInteger", params: {} },
+  (value) => Number.isSafeInteger(value),
+  { code: "not_safe_integer", reason: "safe integer expected" },
+);
+
+export const finite = refinement<number>(
+  { name: "finite", params: {} },
+  (value) => Number.isFinite(value),
+  { code: "not_finite", reason: "finite number expected" },
+);
+
+export const min = (min: number) =>
+  refinement<number>(
+    { name: "min", params: { min, inclusive: true } },
+    (value) => value >= min,
+    {
+      code: "too_small",
+      reason: `number greater than or equal to ${min} expected`,
+    },
+  );
+
+export const max = (max: number) =>
+  refinement<number>(
+    { name: "max", params: { max, inclusive: true } },
+    (value) => value <= max,
+    { code: "too_big", reason: `number less than or equal to ${max} expected` },
+  );
+
+export const exclusiveMin = (min: number) =>
+  refinement<number>(
+    { name: "exclusiveMin", params: { min, inclusive: false } },
+    (value) => value > min,
+    { code: "too_small", reason: `number greater than ${min} expected` },
+  );
+
+export const exclusiveMax = (max: number) =>
+  refinement<number>(
+    { name: "exclusiveMax", params: { max, inclusive: false } },
+    (value) => value < max,
+    { code: "too_big", reason: `number less than ${max} expected` },
+  );
+
+/**
+ * Allows for the rounding error of dividing by decimals,
+ * so that `0.3` is a multiple of `0.1`.
+ */
+const isWhole = (quotient: number) =>
+  Math.abs(quotient - Math.round(quotient)) <=
+  Number.EPSILON * Math.abs(quotient);
+
+export const multipleOf = (divisor: number) =>
+  refinement<number>(
+    { name: "multipleOf", params: { divisor } },
+    (value) => isWhole(value / divisor),
+    { code: "not_multiple_of", reason: `multiple of ${divisor} expected` },
+  );
+
+export const positive = refinement<number>(
+  { name: "positive", params: {} },
+  (value) => value > 0,
+  { code: "not_positive", reason: "positive number expected" },
+);
+
+export const negative = refinement<number>(
+  { name: "negative", params: {} },
+  (value) => value < 0,
+  { code: "not_negative", reason: "negative number expected" },
+);
+
+/**
+ * Accepts numbers as they are and decimal numeric strings,
+ * such as query parameters or CSV cells, converted to numbers.
+ */
+export const coerceNum = parser<number>((ctx) => {
+  const target = ctx.input;
+  if (typeof target === "number") {
+    return ok(target, ctx);
+  }
+  if (typeof target === "string") {
+    const text = target.trim();
+    return NUMERIC.test(text)
+      ? ok(Number(text), ctx)
+      : err("numeric string expected", ctx, { code: "invalid_numeric_string" });
+  }
+  return err(
+    "number or numeric string expected",
+    ctx,
+    invalidType("number or numeric string", target),
+  );
+});
+
+/**
+ * Accepts bigints as they are, and integer numbers
+ * or integer strings converted to bigints.
+ */
+export const coerceBigInt = parser<bigint>((ctx) => {
+  const target = ctx.input;
+  if (typeof target === "bigint") {
+    return ok(target, ctx);
+  }
+  if (typeof target === "number") {
+    return Number.isInteger(target)
+      ? ok(BigInt(target), ctx)
+      : err("integer expected", ctx, { code: "not_integer" });
+  }
+  if (typeof target === "string") {
+    const text = target.trim();
+    return INTEGER.test(text)
+      ? ok(BigInt(text), ctx)
+      : err("integer string expected", ctx, { code: "invalid_integer_string" });
+  }
+  return err(
+    "bigint, integer or integer string expected",
+    ctx,
+    invalidType("bigint, integer or integer string", target),
+  );
+});
+
+/**
+ * Accepts numbers of milliseconds as they are and durations
+ * such as `"500ms"`, `"30s"` or `"1h30m"`, converted to milliseconds.
+ * Numeric strings without a unit are milliseconds too.
+ */
+export const coerceDuration = parser<number>((ctx) => {
+  const target = ctx.input;
+  if (typeof target === "number") {
+    return ok(target, ctx);
+  }
+  if (typeof target === "string") {
+    const text = target.trim();
+    if (/^\d+(?:\.\d+)?$/.test(text)) {
+      return ok(Number(text), ctx);
+    }
+    if (DURATION.test(text)) {
+      let total = 0;
+      for (const [, amount, unit] of text.matchAll(DURATION_PART)) {
+        total += Number(amount) * (MILLISECONDS[unit as string] ?? 0);
+      }
+      return ok(total, ctx);
+    }
+    return err("duration expected", ctx, { code: "invalid_duration" });
+  }
+  return err(
+    "number or duration string expected",
+    ctx,
+    invalidType("number or duration string", target),
+  );
+});
@@ -1,35 +1,88 @@
-import { combine, Parser, parser } from "../parser";
-import { err, ok } from "../parser-result";
+import { fail, input, Parser, parser } from "../parser";
+import { invalidType, ParserErrorInfo } from "../parser-error";
+import {
+  err,
+  failure,
+  ok,
+  ParserFailure,
+  ParserResult,
+  runAll,
+} from "../parser-result";
+import { ParserState } from "../parser-state";
+import { defineOwn, formatValue } from "../utils";
 
-export const parseStr = parser<string>((ctx) => {
-  const target = ctx.input;
-  if (typeof target === "string") {
-    return ok(target, ctx);
-  }
-  return err("string expected", ctx);
-});
+export const parseStr = parser<string>(
+  (ctx) => {
+    const target = ctx.input;
+    if (typeof target === "string") {
+      return ok(target, ctx);
+    }
+    return err("string expected", ctx, invalidType("string", target));
+  },
+  { kind: "string" },
+);
 
 export const parseLit = <Val extends string | number | null | undefined>(
   value: Val,
 ) =>
-  parser((ctx) => {
-    const target = ctx.input;
-    if (target === value) {
-      return ok(value, ctx);
-    }
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (target === value) {
+        return ok(value, ctx);
+      }
 
-    return err(`expected value "${value}"`, ctx);
-  });
+      return err(`expected value "${value}"`, ctx, {
+        code: "invalid_literal",
+        expected: formatValue(value),
+        received: formatValue(target),
+        params: { value },
+      });
+    },
+    { kind: "literal", value },
+  );
 
 export const parseNull = parseLit(null);
 
-export const parseNum = parser((ctx) => {
-  const target = ctx.input;
-  if (typeof target === "number") {
-    return ok(target, ctx);
-  }
-  return err("number expected", ctx);
-});
+/**
+ * Accepts one of the given primitive values.
+ *
+ * @example
+ * parseEnum(["development", "production"])
+ */
+export const parseEnum = <
+  const V extends ReadonlyArray<string | number | boolean | null>,
+>(
+  values: V,
+): Parser<V[number], any> => {
+  const expected = values.map((value) => JSON.stringify(value)).join(", ");
+  return parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (values.includes(target as V[number])) {
+        return ok(target as V[number], ctx);
+      }
+      return err(`expected one of ${expected}`, ctx, {
+        code: "invalid_enum_value",
+        expected: `one of ${expected}`,
+        received: formatValue(target),
+        params: { options: values },
+      });
+    },
+    { kind: "enum", values },
+  );
+};
+
+export const parseNum = parser(
+  (ctx) => {
+    const target = ctx.input;
+    if (typeof target === "number") {
+      return ok(target, ctx);
+    }
+    return err("number expected", ctx, invalidType("number", target));
+  },
+  { kind: "number" },
+);
 
 export const parseObj = parser<Record<string | number | symbol, unknown>>(
   (ctx) => {
@@ -38,45 +91,227 @@ export const parseObj = parser<Record<string | number | symbol, unknown>>(
       return ok(target as Record<string | number | symbol, unknown>, ctx);
     }
 
-    return err("object expected", ctx);
+    return err("object expected", ctx, invalidType("object", target));
   },
+  { kind: "object" },
 );
 
+/**
+ * Steps into the own `name` property of the current input, or fails
+ * when it was visited already. Returns `undefined` when there is
+ * no such property, such as an inherited `constructor`.
+ */
+export const enterField = <S>(
+  ctx: ParserState<S>,
+  name: string | number | symbol,
+): ParserState<S> | ParserFailure | undefined => {
+  const record = ctx.input;
+  if (typeof record !== "object" || record === null) {
+    return err("object expected", ctx, invalidType("object", record));
+  }
+  if (!Object.hasOwn(record, name)) {
+    return undefined;
+  }
+  const nextTarget = (record as Record<typeof name, unknown>)[name];
+  if (ctx.visited.has(nextTarget)) {
+    return err("circular reference detected", ctx, {
+      code: "circular_reference",
+    });
+  }
+  return ctx.visiting(name, nextTarget);
+};
+
+/**
+ * Fails for a missing property that the field parser did not fill in,
+ * as `withDefault` and `nullish` do.
+ */
+export const missingProperty = <S>(
+  ctx: ParserState<S>,
+  name: string | number | symbol,
+): ParserFailure =>
+  err(`property '${String(name)}' expected`, ctx, {
+    code: "missing_property",
+    params: { property: name },
+  });
+
 export const parseField = <T, S>(
   name: string | number | symbol,
   fieldParser: Parser<T, S>,
 ): Parser<T, S> =>
-  combine((bind) => {
-    const record = bind(parseObj);
-    const result = bind(
-      parser((ctx) => {
-        if (name in record) {
-          const nextTarget = record[name];
-          if (ctx.visited.has(nextTarget)) {
-            return err("circular reference detected", ctx);
-          }
-          const [result] = fieldParser.run(ctx.visiting(name, nextTarget));
-          return ok(result, ctx);
+  parser(
+    (ctx) => {
+      const field = enterField(ctx, name);
+      if (field === undefined) {
+        const res = fieldParser.run(
+          ctx.visiting(name, undefined).withMissing(true),
+        );
+        return res.success && !res.state.missing
+          ? ok(res.value, ctx.withStateOf(res.state))
+          : missingProperty(ctx, name);
+      }
+      if (!(field instanceof ParserState)) {
+        return field;
+      }
+      const res = fieldParser.run(field);
+      return res.success ? ok(res.value, ctx.withStateOf(res.state)) : res;
+    },
+    { kind: "field", name, parser: fieldParser },
+  );
+
+export const parseList = <T, S>(itemParser: Parser<T, S>): Parser<T[], S> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (target instanceof Array) {
+        return runAll(ctx, target.length, (idx, ctx) =>
+          itemParser.run(ctx.visiting(idx, target[idx])),
+        );
+      }
+      return err("array expected", ctx, invalidType("array", target));
+    },
+    { kind: "list", item: itemParser },
+  );
+
+/**
+ * Succeeds with the result of the first matching parser.
+ * When none matches, fails with the errors of every alternative.
+ */
+export const oneOf = <T extends unknown[], S = any>(
+  ...parsers: { [K in keyof T]: Parser<T[K], S> }
+): Parser<T[number], S> =>
+  parser(
+    (ctx) => {
+      const errors: ParserErrorInfo[] = [];
+      for (const alternative of parsers) {
+        const res = alternative.run(ctx);
+        if (res.success) {
+          return res;
         }
-        return err(`property '${String(name)}' expected`, ctx);
-      }),
-    );
+        errors.push(...res.errors);
+      }
+      return errors.length > 0
+        ? failure(errors)
+        : err("no parsers given", ctx, { code: "no_options" });
+    },
+    { kind: "union", options: parsers },
+  );
 
-    return result;
-  });
+export const tuple = <T extends unknown[], S = any>(
+  ...parsers: { [K in keyof T]: Parser<T[K], S> }
+): Parser<T, S> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (!(target instanceof Array)) {
+        return err("array expected", ctx, invalidType("array", target));
+      }
+      if (target.length !== parsers.length) {
+        return err(`array of length ${parsers.length} expected`, ctx, {
+          code: "invalid_length",
+          expected: `array of length ${parsers.length}`,
+          received: `array of length ${target.length}`,
+          params: { length: parsers.length },
+        });
+      }
+      return runAll(ctx, parsers.length, (idx, ctx) =>
+        (parsers[idx] as Parser<T[number], S>).run(
+          ctx.visiting(idx, target[idx]),
+        ),
+      ) as ParserResult<T, S>;
+    },
+    { kind: "tuple", items: parsers },
+  );
 
-export const parseList = <T, S>(itemParser: Parser<T, S>): Parser<T[], S> =>
-  parser((ctx) => {
-    const target = ctx.input;
-    if (target instanceof Array) {
-      return ok(
-        target.reduce<T[]>((results, item, idx) => {
-          const [res] = itemParser.run(ctx.visiting(idx, item));
-          results.push(res);
-          return results;
-        }, []),
-        ctx,
-      );
-    }
-    return err("array expected", ctx);
-  });
+/**
+ * Parses a dictionary object, validating each own enumerable key
+ * with `keyParser` and its value with `valueParser`.
+ */
+export const record = <K extends string | number | symbol, V, S>(
+  keyParser: Parser<K, S>,
+  valueParser: Parser<V, S>,
+): Parser<Record<K, V>, S> =>
+  parser(
+    (ctx) => {
+      const target = ctx.input;
+      if (
+        typeof target !== "object" ||
+        target === null ||
+        target instanceof Array
+      ) {
+        return err("object expected", ctx, invalidType("object", target));
+      }
+      const keys = Object.keys(target);
+      const entries = runAll(ctx, keys.length, (idx, ctx) => {
+        const key = keys[idx] as string;
+        const value = (target as Record<string, unknown>)[key];
+        if (ctx.visited.has(value)) {
+          return err("circular reference detected", ctx, {
+            code: "circular_reference",
+          });
+        }
+        const keyRes = keyParser.run(ctx.visiting(key, key));
+        const valueRes = valueParser.run(
+          (keyRes.success ? ctx.withStateOf(keyRes.state) : ctx).visiting(
+            key,
+            value,
+          ),
+        );
+        if (keyRes.success && valueRes.success) {
+          return ok(
+            [keyRes.value, valueRes.value] as const,
+            ctx.withStateOf(valueRes.state),
+          );
+        }
+        return failure([
+          ...(keyRes.success ? [] : keyRes.errors),
+          ...(valueRes.success ? [] : valueRes.errors),
+        ]);
+      });
+      if (!entries.success) {
+        return entries;
+      }
+      const result = {} as Record<K, V>;
+      for (const [key, value] of entries.value) {
+        defineOwn(result, key, value);
+      }
+      return ok(result, entries.state);
+    },
+    { kind: "record", key: keyParser, value: valueParser },
+  );
+
+/**
+ * Parses a tagged union by reading the `tag` field and running
+ * the branch registered for its value against the whole object.
+ * Numeric tags select the branch of the same name, such as `1` for `"1"`.
+ *
+ * @example
+ * parseTaggedUnion("type", { click: parseClick, scroll: parseScroll })
+ */
+export const parseTaggedUnion = <T extends Record<string, unknown>, S = any>(
+  tag: string | number | symbol,
+  branches: { [B in keyof T]: Parser<T[B], S> },
+): Parser<T[keyof T], S> => {
+  const options = Object.keys(branches);
+  const expected = options.map((name) => `'${name}'`).join(", ");
+
+  const dispatch = parseField(tag, input as Parser<unknown, S>).andThen(
+    (value) =>
+      (typeof value === "string" || typeof value === "number") &&
+      Object.prototype.hasOwnProperty.call(branches, String(value))
+        ? (branches[String(value)] as Parser<T[keyof T], S>)
+        : parseField(
+            tag,
+            fail(
+              `unknown tag '${String(value)}', expected one of ${expected}`,
+              {
+                code: "invalid_tag",
+                expected: `one of ${expected}`,
+                received: formatValue(value),
+                params: { tag, options, value },
+              },
+            ),
+          ),
+  );
+
+  return parser(dispatch.run, { kind: "taggedUnion", tag, branches });
+};
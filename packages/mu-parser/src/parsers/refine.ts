@@ -0,0 +1,43 @@
+import { Parser, parser } from "../parser";
+import { err, ok } from "../parser-result";
+
+/**
+ * Names a refinement and its parameters, so that tools like
+ * `toJsonSchema` can describe it.
+ */
+export interface RefinementCheck {
+  readonly name: string;
+  readonly params: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A check to chain off a parser with `andThen`.
+ *
+ * @example
+ * parseStr.andThen(minLength(3))
+ */
+export interface Refinement<T> {
+  (value: T): Parser<T, any>;
+  readonly check: RefinementCheck;
+}
+
+export const isRefinement = (
+  next: (value: any) => Parser<unknown, any>,
+): next is Refinement<unknown> => "check" in next;
+
+/**
+ * Builds a refinement that fails with `reason` and a stable `code`
+ * when `test` does not hold.
+ */
+export const refinement = <T>(
+  { name, params }: RefinementCheck,
+  test: (value: T) => boolean,
+  { code, reason }: { code: string; reason: string },
+): Refinement<T> =>
+  Object.assign(
+    (value: T) =>
+      parser((ctx) =>
+        test(value) ? ok(value, ctx) : err(reason, ctx, { code, params }),
+      ),
+    { check: { name, params } },
+  );
@@ -0,0 +1,133 @@
+import { Parser, parser } from "../parser";
+import { invalidType } from "../parser-error";
+import { err, ok, runAll } from "../parser-result";
+import { defineOwn } from "../utils";
+import { parseField } from "./parsers";
+
+/**
+ * Marks a `parseShape` key that may be missing from the input.
+ * `P` keeps the exact type of the wrapped parser, such as a codec.
+ */
+export class OptionalField<T, S, P extends Parser<T, S> = Parser<T, S>> {
+  constructor(readonly parser: P) {}
+}
+
+export const optional = <T, S, P extends Parser<T, S> = Parser<T, S>>(
+  parser: P & Parser<T, S>,
+): OptionalField<T, S, P> => new OptionalField(parser);
+
+export type Shape<S> = Record<string, Parser<any, S> | OptionalField<any, S>>;
+
+/**
+ * What to do with input keys the shape does not mention:
+ * drop them, copy them as they are, or fail at their path.
+ */
+export type UnknownKeys = "strip" | "passthrough" | "strict";
+
+type FieldValue<F> =
+  F extends OptionalField<infer T, any>
+    ? T | undefined
+    : F extends Parser<infer T, any>
+      ? T
+      : never;
+
+export type RequiredKeys<Sh> = {
+  [K in keyof Sh]: Sh[K] extends OptionalField<any, any> ? never : K;
+}[keyof Sh];
+
+export type Flatten<T> = { [K in keyof T]: T[K] };
+
+export type ShapeValue<Sh, U extends UnknownKeys = "strip"> = Flatten<
+  { [K in RequiredKeys<Sh>]: FieldValue<Sh[K]> } & {
+    [K in Exclude<keyof Sh, RequiredKeys<Sh>>]?: FieldValue<Sh[K]>;
+  } & (U extends "passthrough" ? Record<string, unknown> : unknown)
+>;
+
+export interface ShapeParser<Sh, U extends UnknownKeys, S>
+  extends Parser<ShapeValue<Sh, U>, S> {
+  readonly shape: Sh;
+  readonly unknownKeys: U;
+}
+
+type Entry = readonly [string, unknown] | undefined;
+
+/**
+ * Parses an object described by a map of field parsers.
+ *
+ * @example
+ * parseShape({ name: parseStr, age: parseNum, nick: optional(parseStr) })
+ */
+export const parseShape = <
+  Sh extends Shape<S>,
+  U extends UnknownKeys = "strip",
+  S = any,
+>(
+  shape: Sh,
+  { unknownKeys = "strip" as U }: { unknownKeys?: U } = {},
+): ShapeParser<Sh, U, S> => {
+  const keys = Object.keys(shape);
+  const fields = keys.map((key): Parser<Entry, S> => {
+    const field = shape[key];
+    if (field instanceof OptionalField) {
+      const present = parseField(key, field.parser).map(
+        (value): Entry => [key, value],
+      );
+      return parser((ctx) => {
+        const target = ctx.input as Record<string, unknown>;
+        if (!Object.hasOwn(target, key)) {
+          return ok(undefined, ctx);
+        }
+        if (target[key] === undefined) {
+          return ok([key, undefined], ctx);
+        }
+        return present.run(ctx);
+      });
+    }
+    return parseField(key, field as Parser<unknown, S>).map(
+      (value): Entry => [key, value],
+    );
+  });
+
+  const shapeParser = parser<ShapeValue<Sh, U>, S>(
+    (ctx) => {
+      const target = ctx.input;
+      if (typeof target !== "object" || target === null) {
+        return err("object expected", ctx, invalidType("object", target));
+      }
+      const extra =
+        unknownKeys === "strip"
+          ? []
+          : Object.keys(target).filter(
+              (key) => !Object.prototype.hasOwnProperty.call(shape, key),
+            );
+      const entries = runAll(ctx, fields.length + extra.length, (idx, ctx) => {
+        const field = fields[idx];
+        if (field) {
+          return field.run(ctx);
+        }
+        const key = extra[idx - fields.length] as string;
+        const value = (target as Record<string, unknown>)[key];
+        return unknownKeys === "passthrough"
+          ? ok<Entry, S>([key, value], ctx)
+          : err(`unexpected property '${key}'`, ctx.visiting(key, value), {
+              code: "unrecognized_property",
+              params: { property: key },
+            });
+      });
+      if (!entries.success) {
+        return entries;
+      }
+
+      const result: Record<string, unknown> = {};
+      for (const entry of entries.value) {
+        if (entry) {
+          defineOwn(result, entry[0], entry[1]);
+        }
+      }
+      return ok(result as ShapeValue<Sh, U>, entries.state);
+    },
+    { kind: "shape", shape, unknownKeys },
+  );
+
+  return Object.assign(shapeParser, { shape, unknownKeys });
+};
@@ -0,0 +1,121 @@
+import { refinement } from "./refine";
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-](\d{2}):(\d{2}))$/i;
+
+export const isCalendarDate = (value: string) => {
+  const match = ISO_DATE.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year = 0, month = 0, day = 0] = match.slice(1).map(Number);
+  // unlike `Date.UTC`, keeps years 0 to 99 as they are
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+export const isDateTime = (value: string) => {
+  const match = ISO_DATE_TIME.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, date = "", hours, minutes, seconds, offsetHours, offsetMinutes] =
+    match;
+  return (
+    isCalendarDate(date) &&
+    Number(hours) < 24 &&
+    Number(minutes) < 60 &&
+    Number(seconds ?? 0) < 60 &&
+    Number(offsetHours ?? 0) < 24 &&
+    Number(offsetMinutes ?? 0) < 60
+  );
+};
+
+export const minLength = (min: number) =>
+  refinement<string>(
+    { name: "minLength", params: { min } },
+    (value) => value.length >= min,
+    {
+      code: "too_short",
+      reason: `string of at least ${min} characters expected`,
+    },
+  );
+
+export const maxLength = (max: number) =>
+  refinement<string>(
+    { name: "maxLength", params: { max } },
+    (value) => value.length <= max,
+    {
+      code: "too_long",
+      reason: `string of at most ${max} characters expected`,
+    },
+  );
+
+export const matches = (pattern: RegExp) =>
+  refinement<string>(
+    {
+      name: "pattern",
+      params: { pattern: pattern.source, flags: pattern.flags },
+    },
+    (value) => value.search(pattern) !== -1,
+    { code: "invalid_pattern", reason: `string matching ${pattern} expected` },
+  );
+
+export const trimmed = refinement<string>(
+  { name: "trimmed", params: {} },
+  (value) => value === value.trim(),
+  { code: "not_trimmed", reason: "trimmed string expected" },
+);
+
+export const email = refinement<string>(
+  { name: "email", params: {} },
+  (value) => EMAIL.test(value),
+  { code: "invalid_email", reason: "email expected" },
+);
+
+export const uuid = refinement<string>(
+  { name: "uuid", params: {} },
+  (value) => UUID.test(value),
+  { code: "invalid_uuid", reason: "uuid expected" },
+);
+
+export const url = refinement<string>(
+  { name: "url", params: {} },
+  (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { code: "invalid_url", reason: "url expected" },
+);
+
+export const isoDate = refinement<string>(
+  { name: "isoDate", params: {} },
+  isCalendarDate,
+  { code: "invalid_date", reason: "ISO 8601 date expected" },
+);
+
+export const isoDateTime = refinement<string>(
+  { name: "isoDateTime", params: {} },
+  isDateTime,
+  { code: "invalid_datetime", reason: "ISO 8601 date-time expected" },
+);
+
+export const base64 = refinement<string>(
+  { name: "base64", params: {} },
+  (value) => BASE64.test(value),
+  { code: "invalid_base64", reason: "base64 string expected" },
+);
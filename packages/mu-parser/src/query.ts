@@ -0,0 +1,190 @@
+import { FormatOptions, PathRenderer } from "./messages";
+import { Parser, parser, runParser } from "./parser";
+import { invalidType } from "./parser-error";
+import { err, ok, ParserResult } from "./parser-result";
+import { ParserState } from "./parser-state";
+import { defineOwn } from "./utils";
+
+/**
+ * A query string, with or without its leading `?`,
+ * or key-value pairs such as `URLSearchParams` and `FormData`.
+ */
+export type QuerySource =
+  | string
+  | URLSearchParams
+  | FormData
+  | Iterable<readonly [string, unknown]>;
+
+/**
+ * The keys and values under one bracketed key.
+ * Keys are list positions while every key given is `[]` or an index.
+ */
+class Branch {
+  readonly entries = new Map<string | number | symbol, unknown>();
+  indexed = true;
+}
+
+const KEY = /^([^[\]]+)((?:\[[^[\]]*\])*)$/;
+const INDEX = /^(?:0|[1-9]\d*)$/;
+
+/**
+ * `a[b][0][]` as `["a", "b", 0, ""]`, keys that aren't
+ * well-formed bracket notation as they are.
+ */
+const keySegments = (key: string): Array<string | number> => {
+  const match = KEY.exec(key);
+  if (!match) {
+    return [key];
+  }
+  const [, name = "", brackets = ""] = match;
+  const nested = brackets ? brackets.slice(1, -1).split("][") : [];
+  return [
+    name,
+    ...nested.map((segment) =>
+      INDEX.test(segment) ? Number(segment) : segment,
+    ),
+  ];
+};
+
+const insert = <S>(
+  root: Branch,
+  key: string,
+  value: unknown,
+  ctx: ParserState<S>,
+): ParserResult<void, S> => {
+  const segments = keySegments(key);
+  let branch = root;
+  let at = ctx;
+  for (const [idx, segment] of segments.entries()) {
+    at = at.visiting(segment, undefined);
+    if (typeof segment === "string" && segment !== "") {
+      branch.indexed = false;
+    }
+    // every `[]` adds an entry of its own
+    const entry = segment === "" ? Symbol() : segment;
+    const existing = branch.entries.get(entry);
+
+    if (idx === segments.length - 1 && !(existing instanceof Branch)) {
+      branch.entries.set(
+        entry,
+        existing === undefined
+          ? value
+          : Array.isArray(existing)
+            ? [...existing, value]
+            : [existing, value],
+      );
+    } else if (existing === undefined) {
+      const next = new Branch();
+      branch.entries.set(entry, next);
+      branch = next;
+    } else if (existing instanceof Branch && idx < segments.length - 1) {
+      branch = existing;
+    } else {
+      return err("either a value or nested keys expected", at, {
+        code: "conflicting_query_key",
+        params: { key },
+      });
+    }
+  }
+  return ok(undefined, ctx);
+};
+
+const build = (branch: Branch): unknown => {
+  const entries = [...branch.entries];
+  if (branch.indexed) {
+    return [
+      ...entries
+        .filter(([key]) => typeof key === "number")
+        .sort(([a], [b]) => (a as number) - (b as number)),
+      ...entries.filter(([key]) => typeof key === "symbol"),
+    ].map(([, value]) => (value instanceof Branch ? build(value) : value));
+  }
+  const result: Record<string, unknown> = {};
+  let appended = 0;
+  for (const [key, value] of entries) {
+    defineOwn(
+      result,
+      typeof key === "symbol" ? String(appended++) : String(key),
+      value instanceof Branch ? build(value) : value,
+    );
+  }
+  return result;
+};
+
+const isPairs = (
+  value: unknown,
+): value is Iterable<readonly [string, unknown]> =>
+  typeof value === "object" && value !== null && Symbol.iterator in value;
+
+/**
+ * Parses a query string, `URLSearchParams` or `FormData` with `valueParser`,
+ * after turning its pairs into nested objects and arrays by bracket notation:
+ * `a[b]=1` is `{ a: { b: "1" } }`, `a[0]=1` and `a[]=1` are `{ a: ["1"] }`.
+ * Indexes keep their order, closing any gaps.
+ * Repeated keys give arrays of their values. Values stay strings
+ * (or `File`s), parse them with the coercing parsers,
+ * such as `coerceNum` or `coerceList`.
+ * Error paths follow the nested keys.
+ *
+ * @example
+ * parseQuery(parseShape({
+ *   page: coerceNum.andThen(integer),
+ *   filter: parseShape({ tags: coerceList(parseStr) }),
+ * }))
+ * // "page=2&filter[tags][]=a&filter[tags][]=b" -> { page: 2, filter: { tags: ["a", "b"] } }
+ */
+export const parseQuery = <T, S>(valueParser: Parser<T, S>): Parser<T, S> =>
+  parser((ctx) => {
+    const source = ctx.input;
+    const pairs =
+      typeof source === "string"
+        ? new URLSearchParams(source)
+        : isPairs(source)
+          ? source
+          : undefined;
+    if (!pairs) {
+      return err(
+        "query string or key-value pairs expected",
+        ctx,
+        invalidType("query string or key-value pairs", source),
+      );
+    }
+
+    const root = new Branch();
+    for (const [key, value] of pairs) {
+      const inserted = insert(root, key, value, ctx);
+      if (!inserted.success) {
+        return inserted;
+      }
+    }
+    root.indexed = false;
+    return valueParser.run(ctx.withInput(build(root)));
+  });
+
+/**
+ * `filter[tags][0]`, the key the value was given at.
+ */
+export const queryKey: PathRenderer = (path) =>
+  path
+    .map((part, idx) => (idx === 0 ? String(part) : `[${String(part)}]`))
+    .join("");
+
+/**
+ * Runs `parseQuery(valueParser)` on `source`, throwing a `ValidationError`
+ * that lists every invalid field by the key it was given at.
+ *
+ * @example
+ * const search = readQuery(searchParser, new URL(request.url).searchParams);
+ * // ValidationError: numeric string expected at path "filter[minPrice]"
+ */
+export const readQuery = <T>(
+  valueParser: Parser<T, void>,
+  source: QuerySource,
+  { renderPath = queryKey, ...format }: FormatOptions = {},
+): T =>
+  runParser(parseQuery(valueParser), {
+    input: source,
+    collectErrors: true,
+    renderPath,
+    ...format,
+  });
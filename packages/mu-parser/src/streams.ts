@@ -0,0 +1,53 @@
+import { AnyParser } from "./async-parser";
+import { FormatOptions } from "./messages";
+import { Parser, validationError } from "./parser";
+import { ParserState } from "./parser-state";
+
+export interface ParseEachParams<S> extends FormatOptions {
+  initialState?: S;
+}
+
+/**
+ * Validates the items of an iterable one by one as they are pulled,
+ * without collecting them first. User state is threaded from item to item.
+ * Throws a `ValidationError` at the first invalid item, with its index as the path.
+ *
+ * @example
+ * for (const row of parseEach(rowParser, readRows())) { ... }
+ */
+export function* parseEach<T, S = any>(
+  itemParser: Parser<T, S>,
+  source: Iterable<unknown>,
+  { initialState, ...format }: ParseEachParams<S> = {},
+): Generator<T, void, undefined> {
+  let ctx = ParserState.empty(undefined, initialState as S);
+  let idx = 0;
+  for (const item of source) {
+    const res = itemParser.run(ctx.visiting(idx++, item));
+    if (!res.success) {
+      throw validationError(res.errors, format);
+    }
+    ctx = ctx.withStateOf(res.state);
+    yield res.value;
+  }
+}
+
+/**
+ * `parseEach` for async iterables, such as streams, and async parsers.
+ */
+export async function* parseEachAsync<T, S = any>(
+  itemParser: AnyParser<T, S>,
+  source: Iterable<unknown> | AsyncIterable<unknown>,
+  { initialState, ...format }: ParseEachParams<S> = {},
+): AsyncGenerator<T, void, undefined> {
+  let ctx = ParserState.empty(undefined, initialState as S);
+  let idx = 0;
+  for await (const item of source) {
+    const res = await itemParser.run(ctx.visiting(idx++, item));
+    if (!res.success) {
+      throw validationError(res.errors, format);
+    }
+    ctx = ctx.withStateOf(res.state);
+    yield res.value;
+  }
+}
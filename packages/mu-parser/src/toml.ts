@@ -0,0 +1,525 @@
+import { SourceDocument, sourceDocument } from "./json-source";
+import { SourcePosition, SourceSyntaxError } from "./json-stream";
+import { FormatOptions, jsonPointer } from "./messages";
+import { validationError } from "./parser";
+import { defineOwn } from "./utils";
+
+type Path = ReadonlyArray<string | number>;
+
+type Table = Record<string, unknown>;
+
+const BARE_KEY = /[A-Za-z0-9_-]+/y;
+const SCALAR = /(?:\d{4}-\d{2}-\d{2} (?=\d{2}:))?[\w.:+-]*/y;
+const LINE_ENDING_BACKSLASH = /[ \t]*\r?\n\s*/y;
+const DECIMAL = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+const PREFIXED =
+  /^0(?:x[\da-fA-F](?:_?[\da-fA-F])*|o[0-7](?:_?[0-7])*|b[01](?:_?[01])*)$/;
+const FLOAT =
+  /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?$/;
+const SPECIAL_FLOAT = /^[+-]?(?:inf|nan)$/;
+const OFFSET_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/;
+const LOCAL_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?)?$|^\d{2}:\d{2}:\d{2}(?:\.\d+)?$/;
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  '"': '"',
+  "\\": "\\",
+};
+
+const isTable = (value: unknown): value is Table =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const integer = (digits: string) => {
+  const value = Number(digits);
+  return Number.isSafeInteger(value) ? value : BigInt(digits);
+};
+
+/**
+ * Reads a TOML 1.0 document.
+ */
+class TomlReader {
+  private pos = 0;
+  private readonly lineStarts = [0];
+  readonly root: Table = {};
+  readonly positions = new Map<string, SourcePosition>();
+  private table = this.root;
+  private tablePath: Path = [];
+  /**
+   * Tables opened by a header, which cannot be opened again.
+   */
+  private readonly defined = new WeakSet<Table>();
+  /**
+   * Tables created by dotted keys, which headers cannot open.
+   */
+  private readonly dotted = new WeakSet<Table>();
+  /**
+   * Inline tables, which are complete as written.
+   */
+  private readonly sealed = new WeakSet<Table>();
+  /**
+   * Arrays created by `[[header]]`s, which later ones append to.
+   */
+  private readonly tableArrays = new WeakSet<unknown[]>();
+
+  constructor(private readonly text: string) {
+    for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) {
+      this.lineStarts.push(i + 1);
+    }
+  }
+
+  read(): Table {
+    this.record([], 0);
+    for (;;) {
+      this.skipBlankLines();
+      if (this.pos >= this.text.length) {
+        return this.root;
+      }
+      if (this.peek() === "[") {
+        this.header();
+      } else {
+        this.keyValue(this.table, this.tablePath);
+      }
+      this.endOfLine();
+    }
+  }
+
+  private header() {
+    const start = this.pos;
+    const isArray = this.text.startsWith("[[", start);
+    this.pos += isArray ? 2 : 1;
+    const keys = this.key();
+    this.skipSpaces();
+    this.expect(isArray ? "]]" : "]");
+
+    let table = this.root;
+    const path: Array<string | number> = [];
+    for (const key of keys.slice(0, -1)) {
+      const existing = Object.hasOwn(table, key) ? table[key] : undefined;
+      path.push(key);
+      if (existing === undefined) {
+        const next: Table = {};
+        defineOwn(table, key, next);
+        table = next;
+      } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+        table = existing.at(-1) as Table;
+        path.push(existing.length - 1);
+      } else if (isTable(existing) && !this.sealed.has(existing)) {
+        table = existing;
+      } else {
+        this.fail("table", start, JSON.stringify(path.join(".")));
+      }
+    }
+
+    const last = keys.at(-1) as string;
+    const existing = Object.hasOwn(table, last) ? table[last] : undefined;
+    const name = JSON.stringify(keys.join("."));
+    path.push(last);
+    if (isArray) {
+      let entries: unknown[];
+      if (existing === undefined) {
+        entries = [];
+        this.tableArrays.add(entries);
+        defineOwn(table, last, entries);
+      } else if (Array.isArray(existing) && this.tableArrays.has(existing)) {
+        entries = existing;
+      } else {
+        return this.fail("array of tables", start, name);
+      }
+      const next: Table = {};
+      path.push(entries.length);
+      entries.push(next);
+      table = next;
+    } else if (existing === undefined) {
+      const next: Table = {};
+      defineOwn(table, last, next);
+      table = next;
+    } else if (
+      isTable(existing) &&
+      !this.defined.has(existing) &&
+      !this.dotted.has(existing) &&
+      !this.sealed.has(existing)
+    ) {
+      table = existing;
+    } else {
+      this.fail("new table", start, name);
+    }
+
+    this.defined.add(table);
+    this.table = table;
+    this.tablePath = path;
+    this.record(path, start);
+  }
+
+  private keyValue(table: Table, tablePath: Path) {
+    const start = this.pos;
+    const keys = this.key();
+    this.skipSpaces();
+    this.expect("=");
+    this.skipSpaces();
+
+    let target = table;
+    const path = [...tablePath];
+    for (const key of keys.slice(0, -1)) {
+      const existing = Object.hasOwn(target, key) ? target[key] : undefined;
+      if (existing === undefined) {
+        const next: Table = {};
+        this.dotted.add(next);
+        defineOwn(target, key, next);
+        target = next;
+      } else if (isTable(existing) && this.dotted.has(existing)) {
+        target = existing;
+      } else {
+        this.fail("new key", start, JSON.stringify(keys.join(".")));
+      }
+      path.push(key);
+    }
+
+    const last = keys.at(-1) as string;
+    if (Object.hasOwn(target, last)) {
+      this.fail("new key", start, JSON.stringify(keys.join(".")));
+    }
+    path.push(last);
+    defineOwn(target, last, this.value(path));
+  }
+
+  private key(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const ch = this.peek();
+      if (ch === '"') {
+        keys.push(this.basicString());
+      } else if (ch === "'") {
+        keys.push(this.literalString());
+      } else {
+        keys.push(this.match(BARE_KEY) || this.fail("key", this.pos));
+      }
+      this.skipSpaces();
+      if (this.peek() !== ".") {
+        return keys;
+      }
+      this.pos++;
+    }
+  }
+
+  private value(path: Path): unknown {
+    this.record(path, this.pos);
+    const ch = this.peek();
+    if (this.text.startsWith('"""', this.pos)) {
+      return this.multilineString('"""');
+    }
+    if (this.text.startsWith("'''", this.pos)) {
+      return this.multilineString("'''");
+    }
+    if (ch === '"') {
+      return this.basicString();
+    }
+    if (ch === "'") {
+      return this.literalString();
+    }
+    if (ch === "[") {
+      return this.array(path);
+    }
+    if (ch === "{") {
+      return this.inlineTable(path);
+    }
+    return this.scalar();
+  }
+
+  private scalar(): unknown {
+    const start = this.pos;
+    const token = this.match(SCALAR);
+    const digits = token.replace(/_/g, "").replace(/^\+/, "");
+    if (token === "true" || token === "false") {
+      return token === "true";
+    }
+    if (DECIMAL.test(token) || PREFIXED.test(token)) {
+      return integer(digits);
+    }
+    if (FLOAT.test(token)) {
+      return Number(digits);
+    }
+    if (SPECIAL_FLOAT.test(token)) {
+      return token.endsWith("nan")
+        ? NaN
+        : token.startsWith("-")
+          ? -Infinity
+          : Infinity;
+    }
+    if (OFFSET_DATE_TIME.test(token)) {
+      const date = new Date(token.replace(" ", "T"));
+      if (!Number.isNaN(date.getTime())) {
+        return date;
+      }
+    } else if (LOCAL_DATE_TIME.test(token)) {
+      // without an offset there is no instant to build a Date from
+      return token;
+    }
+    return this.fail("value", start, token ? JSON.stringify(token) : undefined);
+  }
+
+  private basicString(): string {
+    this.pos++;
+    let value = "";
+    for (;;) {
+      const ch = this.peek();
+      if (ch === "" || ch === "\n") {
+        this.fail(`closing '"'`, this.pos);
+      }
+      this.pos++;
+      if (ch === '"') {
+        return value;
+      }
+      value += ch === "\\" ? this.escape() : ch;
+    }
+  }
+
+  private literalString(): string {
+    const end = this.text.indexOf("'", this.pos + 1);
+    const newline = this.text.indexOf("\n", this.pos + 1);
+    if (end < 0 || (newline >= 0 && newline < end)) {
+      this.fail('closing "\'"', newline >= 0 ? newline : this.text.length);
+    }
+    const value = this.text.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private multilineString(delimiter: string): string {
+    const quote = delimiter.charAt(0);
+    this.pos += 3;
+    // a newline right after the opening delimiter is not part of the string
+    this.pos += this.text.startsWith("\r\n", this.pos)
+      ? 2
+      : this.peek() === "\n"
+        ? 1
+        : 0;
+
+    let value = "";
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        this.fail(`closing ${delimiter}`, this.pos);
+      }
+      if (this.text.startsWith(delimiter, this.pos)) {
+        // up to two quotes right before the closing delimiter belong to the string
+        let extra = 0;
+        while (extra < 2 && this.peek(3 + extra) === quote) {
+          extra++;
+        }
+        this.pos += 3 + extra;
+        return value + quote.repeat(extra);
+      }
+
+      const ch = this.peek();
+      this.pos++;
+      if (ch === "\r" && this.peek() === "\n") {
+        continue;
+      }
+      if (quote === '"' && ch === "\\") {
+        // a backslash ending a line trims the whitespace that follows
+        value += this.match(LINE_ENDING_BACKSLASH) ? "" : this.escape();
+      } else {
+        value += ch;
+      }
+    }
+  }
+
+  private escape(): string {
+    const start = this.pos - 1;
+    const ch = this.peek();
+    this.pos++;
+    const simple = ESCAPES[ch];
+    if (simple !== undefined) {
+      return simple;
+    }
+    const digits = ch === "u" ? 4 : ch === "U" ? 8 : 0;
+    const hex = this.text.slice(this.pos, this.pos + digits);
+    const codePoint = parseInt(hex, 16);
+    if (
+      digits &&
+      hex.length === digits &&
+      /^[\da-fA-F]+$/.test(hex) &&
+      codePoint <= 0x10ffff &&
+      (codePoint < 0xd800 || codePoint > 0xdfff)
+    ) {
+      this.pos += digits;
+      return String.fromCodePoint(codePoint);
+    }
+    return this.fail("escape sequence", start, JSON.stringify(`\\${ch}`));
+  }
+
+  private array(path: Path): unknown[] {
+    this.pos++;
+    const items: unknown[] = [];
+    for (;;) {
+      this.skipBlankLines();
+      if (this.peek() === "]") {
+        this.pos++;
+        return items;
+      }
+      items.push(this.value([...path, items.length]));
+      this.skipBlankLines();
+      if (this.peek() === ",") {
+        this.pos++;
+      } else {
+        this.expect("]", "',' or ']'");
+        return items;
+      }
+    }
+  }
+
+  private inlineTable(path: Path): Table {
+    this.pos++;
+    const table: Table = {};
+    this.skipSpaces();
+    if (this.peek() === "}") {
+      this.pos++;
+    } else {
+      for (;;) {
+        this.keyValue(table, path);
+        this.skipSpaces();
+        if (this.peek() !== ",") {
+          this.expect("}", "',' or '}'");
+          break;
+        }
+        this.pos++;
+      }
+    }
+    this.sealed.add(table);
+    return table;
+  }
+
+  private endOfLine() {
+    this.skipSpaces();
+    this.skipComment();
+    if (this.pos >= this.text.length) {
+      return;
+    }
+    if (this.text.startsWith("\r\n", this.pos)) {
+      this.pos += 2;
+    } else if (this.peek() === "\n") {
+      this.pos++;
+    } else {
+      this.fail("end of line", this.pos);
+    }
+  }
+
+  private skipSpaces() {
+    while (this.peek() === " " || this.peek() === "\t") {
+      this.pos++;
+    }
+  }
+
+  private skipComment() {
+    if (this.peek() === "#") {
+      const end = this.text.indexOf("\n", this.pos);
+      this.pos = end < 0 ? this.text.length : end;
+    }
+  }
+
+  private skipBlankLines() {
+    for (;;) {
+      this.skipSpaces();
+      this.skipComment();
+      if (this.peek() === "\n") {
+        this.pos++;
+      } else if (this.text.startsWith("\r\n", this.pos)) {
+        this.pos += 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private peek(offset = 0) {
+    return this.text.charAt(this.pos + offset);
+  }
+
+  private match(pattern: RegExp): string {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text)?.[0] ?? "";
+    this.pos += match.length;
+    return match;
+  }
+
+  private expect(token: string, expected = `'${token}'`) {
+    if (!this.text.startsWith(token, this.pos)) {
+      this.fail(expected, this.pos);
+    }
+    this.pos += token.length;
+  }
+
+  private position(pos: number): SourcePosition {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if ((this.lineStarts[mid] ?? 0) <= pos) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    const lineStart = this.lineStarts[low] ?? 0;
+    return {
+      line: low + 1,
+      column: [...this.text.slice(lineStart, pos)].length + 1,
+    };
+  }
+
+  private record(path: Path, pos: number) {
+    this.positions.set(jsonPointer(path), this.position(pos));
+  }
+
+  private fail(expected: string, pos: number, received?: string): never {
+    const { line, column } = this.position(pos);
+    throw new SourceSyntaxError({
+      reason: `invalid TOML, ${expected} expected at line ${line}, column ${column}`,
+      path: [],
+      code: "invalid_toml",
+      expected,
+      received:
+        received ??
+        (pos < this.text.length
+          ? JSON.stringify(this.text.charAt(pos))
+          : "end of input"),
+      params: { line, column },
+    });
+  }
+}
+
+/**
+ * Parses a TOML 1.0 document into plain values, keeping the position of every
+ * value so that validation errors can point at their line and column.
+ * Date-times with an offset become `Date`s, local dates and times stay
+ * strings, and integers beyond the safe range become bigints.
+ * Throws a `ValidationError` with the code `invalid_toml` on syntax errors.
+ *
+ * @example
+ * const doc = parseTomlSource(fs.readFileSync("config.toml", "utf8"));
+ * runParser(configParser, { input: doc.value, ...withSourceLocations(doc) });
+ */
+export const parseTomlSource = (
+  text: string,
+  format: FormatOptions = {},
+): SourceDocument => {
+  try {
+    const reader = new TomlReader(text);
+    return sourceDocument(text, reader.read(), reader.positions);
+  } catch (e) {
+    if (e instanceof SourceSyntaxError) {
+      throw validationError([e.info], format);
+    }
+    throw e;
+  }
+};
@@ -1,14 +1,3 @@
-export const recover =
-  <Err extends new (...args: any[]) => any>(err: Err) =>
-  <T>(fn: (err: InstanceType<Err>) => T) =>
-  (e: unknown): T => {
-    if (e instanceof err) {
-      return fn(e);
-    } else {
-      throw e;
-    }
-  };
-
 export function attempt<T>(
   fn: () => T,
   recover: (e: unknown) => T,
@@ -26,5 +15,43 @@ export function attempt<T>(
   }
 }
 
+/**
+ * Names the runtime type of a value for error messages,
+ * telling arrays and `null` apart from other objects.
+ */
+export const typeOf = (value: unknown): string =>
+  value === null ? "null" : value instanceof Array ? "array" : typeof value;
+
+/**
+ * Renders a primitive the way it would appear in source code.
+ */
+export const formatValue = (value: unknown): string =>
+  typeof value === "string"
+    ? JSON.stringify(value)
+    : typeof value === "bigint"
+      ? `${value}n`
+      : typeof value === "object" && value !== null
+        ? typeOf(value)
+        : String(value);
+
+/**
+ * Sets a property the way `JSON.parse` does,
+ * keeping "__proto__" an own property instead of the prototype.
+ */
+export const defineOwn = (
+  target: object,
+  key: string | number | symbol,
+  value: unknown,
+) =>
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+
 export const toJsonPointerRefToken = (part: string | number | symbol) =>
-  `/${String(part).replace("~", "~0").replace("/", "~1")}`;
+  `/${String(part).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+export const fromJsonPointerRefToken = (token: string) =>
+  token.replace(/~1/g, "/").replace(/~0/g, "~");
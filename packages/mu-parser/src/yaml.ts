@@ -0,0 +1,711 @@
+import { SourceDocument, sourceDocument } from "./json-source";
+import { SourcePosition, SourceSyntaxError } from "./json-stream";
+import { FormatOptions, jsonPointer } from "./messages";
+import { validationError } from "./parser";
+import { defineOwn } from "./utils";
+
+type Path = ReadonlyArray<string | number>;
+
+interface Line {
+  readonly no: number;
+  readonly raw: string;
+  indent: number;
+  /**
+   * The content after the indentation, without a trailing comment.
+   */
+  text: string;
+}
+
+interface Flow {
+  readonly text: string;
+  readonly line: Line;
+  readonly column: number;
+  pos: number;
+}
+
+const SEQUENCE_ITEM = /^-(?:\s|$)/;
+const ANCHOR = /^&([^\s,[\]{}]+)\s*/;
+const ALIAS = /^\*([^\s,[\]{}]+)/;
+const BLOCK_SCALAR = /^([|>])([-+]?)([1-9]?)([-+]?)$/;
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+};
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Resolves a plain scalar with the YAML 1.2 core schema.
+ */
+const resolvePlain = (text: string): unknown => {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) {
+    return null;
+  }
+  if (/^(?:true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(?:false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?\d+$/.test(text)) {
+    return Number(text);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8);
+  }
+  if (/^0x[\da-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) {
+    return text.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+  return text;
+};
+
+/**
+ * Drops a comment, which starts with `#` at the beginning of the line
+ * or after whitespace, outside of quotes.
+ */
+const stripComment = (text: string) => {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charAt(i);
+    if (quote === '"' && ch === "\\") {
+      i++;
+    } else if (quote === "'" && ch === "'" && text.charAt(i + 1) === "'") {
+      i++;
+    } else if (quote) {
+      quote = ch === quote ? undefined : quote;
+    } else if (ch === "#" && (i === 0 || /\s/.test(text.charAt(i - 1)))) {
+      return text.slice(0, i).trimEnd();
+    } else if (
+      (ch === '"' || ch === "'") &&
+      (i === 0 || /[\s[{,]/.test(text.charAt(i - 1)))
+    ) {
+      quote = ch;
+    }
+  }
+  return text.trimEnd();
+};
+
+/**
+ * Joins the lines of a folded block scalar: lines of a paragraph with spaces,
+ * and more indented lines and empty lines with newlines.
+ */
+const fold = (lines: ReadonlyArray<string>) => {
+  let folded = "";
+  let previous: "text" | "more" | "empty" | undefined;
+  for (const line of lines) {
+    if (line === "") {
+      folded += "\n";
+      previous = "empty";
+    } else if (/^\s/.test(line)) {
+      folded += (previous === "text" || previous === "more" ? "\n" : "") + line;
+      previous = "more";
+    } else {
+      folded +=
+        (previous === "text" ? " " : previous === "more" ? "\n" : "") + line;
+      previous = "text";
+    }
+  }
+  return folded;
+};
+
+const isDocumentMarker = (line: Line) =>
+  line.indent === 0 && (line.text === "---" || line.text === "...");
+
+/**
+ * Reads a single YAML document made of block and single-line flow
+ * mappings and sequences, plain, quoted and block scalars, anchors and aliases.
+ */
+class YamlReader {
+  private readonly lines: Line[];
+  private i = 0;
+  private readonly anchors = new Map<string, unknown>();
+  readonly positions = new Map<string, SourcePosition>();
+
+  constructor(text: string) {
+    const raws = text.split(/\r?\n/);
+    if (raws.at(-1) === "") {
+      // the newline ending the last line does not start another one
+      raws.pop();
+    }
+    this.lines = raws.map((raw, idx) => {
+      const indent = /^ */.exec(raw)?.[0].length ?? 0;
+      const line: Line = {
+        no: idx + 1,
+        raw,
+        indent,
+        text: stripComment(raw.slice(indent)),
+      };
+      if (raw.charAt(indent) === "\t" && line.text.trim() !== "") {
+        this.fail("indentation with spaces", line, indent + 1, '"\\t"');
+      }
+      line.text = line.text.trimStart();
+      return line;
+    });
+  }
+
+  read(): unknown {
+    this.skipBlank();
+    if (this.current()?.text === "---") {
+      this.i++;
+    }
+    const value = this.block([], -1, false);
+    this.skipBlank();
+    if (this.current()?.text === "...") {
+      this.i++;
+      this.skipBlank();
+    }
+    const extra = this.current();
+    if (extra) {
+      this.fail(
+        extra.text === "---" ? "a single document" : "end of document",
+        extra,
+        extra.indent + 1,
+        JSON.stringify(extra.text),
+      );
+    }
+    return value;
+  }
+
+  private current(): Line | undefined {
+    return this.lines[this.i];
+  }
+
+  private skipBlank() {
+    while (this.current()?.text === "") {
+      this.i++;
+    }
+  }
+
+  /**
+   * Reads the node on the following lines, indented deeper than its parent.
+   * A sequence may also be as deep as the mapping key it belongs to.
+   */
+  private block(
+    path: Path,
+    parentIndent: number,
+    inMapping: boolean,
+    anchor?: string,
+  ): unknown {
+    this.skipBlank();
+    const line = this.current();
+    const isChild =
+      line &&
+      !isDocumentMarker(line) &&
+      (line.indent > parentIndent ||
+        (inMapping &&
+          line.indent === parentIndent &&
+          SEQUENCE_ITEM.test(line.text)));
+    if (!line || !isChild) {
+      return this.define(anchor, null);
+    }
+
+    this.record(path, line, line.indent + 1);
+    if (SEQUENCE_ITEM.test(line.text)) {
+      return this.sequence(path, line.indent, anchor);
+    }
+    if (this.entry(line)) {
+      return this.mapping(path, line.indent, anchor);
+    }
+    this.i++;
+    return this.value(
+      path,
+      parentIndent,
+      inMapping,
+      line,
+      line.text,
+      line.indent + 1,
+      anchor,
+    );
+  }
+
+  private sequence(path: Path, indent: number, anchor?: string) {
+    const items: unknown[] = [];
+    this.define(anchor, items);
+    for (;;) {
+      this.skipBlank();
+      const line = this.current();
+      if (!line || line.indent < indent || isDocumentMarker(line)) {
+        break;
+      }
+      if (line.indent > indent) {
+        this.fail("consistent indentation", line, line.indent + 1);
+      }
+      if (!SEQUENCE_ITEM.test(line.text)) {
+        break;
+      }
+
+      const itemPath = [...path, items.length];
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.i++;
+      } else {
+        // the rest of the line is read as if it started a line of its own
+        line.indent += line.text.length - rest.length;
+        line.text = rest;
+      }
+      items.push(this.block(itemPath, indent, false));
+    }
+    return items;
+  }
+
+  private mapping(path: Path, indent: number, anchor?: string) {
+    const entries: Record<string, unknown> = {};
+    this.define(anchor, entries);
+    for (;;) {
+      this.skipBlank();
+      const line = this.current();
+      if (!line || line.indent < indent || isDocumentMarker(line)) {
+        break;
+      }
+      if (line.indent > indent) {
+        this.fail("consistent indentation", line, line.indent + 1);
+      }
+      const entry = this.entry(line);
+      if (!entry) {
+        this.fail("mapping entry", line, indent + 1, JSON.stringify(line.text));
+      }
+
+      const { key, rest, offset } = entry;
+      if (Object.hasOwn(entries, key)) {
+        this.fail("unique key", line, indent + 1, JSON.stringify(key));
+      }
+      const keyPath = [...path, key];
+      this.record(keyPath, line, indent + 1);
+      this.i++;
+      defineOwn(
+        entries,
+        key,
+        this.value(keyPath, indent, true, line, rest, indent + 1 + offset),
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Splits a `key: value` line, or returns `undefined` when it is not one.
+   */
+  private entry(
+    line: Line,
+  ): { key: string; rest: string; offset: number } | undefined {
+    const { text } = line;
+    const first = text.charAt(0);
+    let key: string;
+    let keyEnd: number;
+    if (first === '"' || first === "'") {
+      const quoted = this.quoted(text, 0, line, line.indent + 1);
+      key = quoted.value;
+      keyEnd = quoted.end;
+    } else if (SEQUENCE_ITEM.test(text) || /^[[\]{},#&*!|>%@`]/.test(text)) {
+      return undefined;
+    } else {
+      keyEnd = /:(?:\s|$)/.exec(text)?.index ?? -1;
+      key = text.slice(0, keyEnd).trimEnd();
+      if (keyEnd < 0 || key === "") {
+        return undefined;
+      }
+    }
+
+    const colon = /^\s*:(?:\s+|$)/.exec(text.slice(keyEnd));
+    if (!colon) {
+      return undefined;
+    }
+    const offset = keyEnd + colon[0].length;
+    return { key, rest: text.slice(offset), offset };
+  }
+
+  /**
+   * Reads the node starting with `text`, on the line of its key or sequence
+   * item, or on the following lines when `text` is empty.
+   */
+  private value(
+    path: Path,
+    parentIndent: number,
+    inMapping: boolean,
+    line: Line,
+    text: string,
+    column: number,
+    anchor?: string,
+  ): unknown {
+    const anchorMatch = ANCHOR.exec(text);
+    if (anchorMatch) {
+      if (anchor !== undefined) {
+        this.fail("a single anchor", line, column);
+      }
+      anchor = anchorMatch[1];
+      text = text.slice(anchorMatch[0].length);
+      column += anchorMatch[0].length;
+    }
+    if (text === "") {
+      return this.block(path, parentIndent, inMapping, anchor);
+    }
+
+    this.record(path, line, column);
+    const first = text.charAt(0);
+    if (first === "*") {
+      return this.alias(text, line, column, anchor);
+    }
+    if (first === "|" || first === ">") {
+      return this.define(
+        anchor,
+        this.blockScalar(text, line, column, parentIndent),
+      );
+    }
+    if (first === "[" || first === "{") {
+      const flow: Flow = { text, line, column, pos: 0 };
+      const value = this.flowNode(flow, path, anchor);
+      this.skipFlowSpaces(flow);
+      if (flow.pos < text.length) {
+        this.fail("end of line", line, column + flow.pos);
+      }
+      return value;
+    }
+    if (first === '"' || first === "'") {
+      const { value, end } = this.quoted(text, 0, line, column);
+      if (text.slice(end).trim() !== "") {
+        this.fail("end of line", line, column + end);
+      }
+      return this.define(anchor, value);
+    }
+    if (/^[!@`]/.test(text) || /:(?:\s|$)/.test(text)) {
+      // tags, reserved indicators and mappings on the line of their parent
+      this.fail("plain scalar", line, column, JSON.stringify(text));
+    }
+    return this.define(anchor, resolvePlain(text));
+  }
+
+  private alias(text: string, line: Line, column: number, anchor?: string) {
+    const match = ALIAS.exec(text);
+    const name = match?.[1];
+    if (anchor !== undefined || !match || match[0] !== text.trimEnd()) {
+      this.fail("alias", line, column, JSON.stringify(text));
+    }
+    if (name === undefined || !this.anchors.has(name)) {
+      this.fail("defined anchor", line, column, JSON.stringify(text));
+    }
+    return this.anchors.get(name);
+  }
+
+  private blockScalar(
+    header: string,
+    line: Line,
+    column: number,
+    parentIndent: number,
+  ): string {
+    const match = BLOCK_SCALAR.exec(header);
+    if (!match) {
+      this.fail("block scalar header", line, column, JSON.stringify(header));
+    }
+    const [, style, chomp1, digit, chomp2] = match;
+    const chomp = chomp1 || chomp2;
+    let contentIndent = digit
+      ? Math.max(parentIndent, 0) + Number(digit)
+      : undefined;
+
+    const body: string[] = [];
+    for (let next = this.current(); next; next = this.current()) {
+      const blank = next.raw.trim() === "";
+      if (!blank) {
+        contentIndent ??= next.indent;
+        if (next.indent < contentIndent || next.indent <= parentIndent) {
+          break;
+        }
+      }
+      body.push(blank ? "" : next.raw.slice(contentIndent));
+      this.i++;
+    }
+
+    let end = body.length;
+    while (end > 0 && body[end - 1] === "") {
+      end--;
+    }
+    const trailing = body.length - end;
+    const lines = body.slice(0, end);
+    if (lines.length === 0) {
+      return chomp === "+" ? "\n".repeat(trailing) : "";
+    }
+    const content = style === "|" ? lines.join("\n") : fold(lines);
+    return (
+      content +
+      (chomp === "-" ? "" : chomp === "+" ? "\n".repeat(trailing + 1) : "\n")
+    );
+  }
+
+  private quoted(
+    text: string,
+    start: number,
+    line: Line,
+    column: number,
+  ): { value: string; end: number } {
+    const quote = text.charAt(start);
+    let value = "";
+    for (let i = start + 1; i < text.length; i++) {
+      const ch = text.charAt(i);
+      if (quote === "'") {
+        if (ch !== "'") {
+          value += ch;
+        } else if (text.charAt(i + 1) === "'") {
+          value += "'";
+          i++;
+        } else {
+          return { value, end: i + 1 };
+        }
+      } else if (ch === '"') {
+        return { value, end: i + 1 };
+      } else if (ch === "\\") {
+        const escape = text.charAt(++i);
+        const digits = HEX_ESCAPES[escape];
+        const hex = digits ? text.slice(i + 1, i + 1 + digits) : "";
+        const simple = ESCAPES[escape];
+        if (digits && hex.length === digits && /^[\da-fA-F]+$/.test(hex)) {
+          value += String.fromCodePoint(parseInt(hex, 16));
+          i += digits;
+        } else if (simple !== undefined) {
+          value += simple;
+        } else {
+          this.fail("escape sequence", line, column + i - 1, `"\\${escape}"`);
+        }
+      } else {
+        value += ch;
+      }
+    }
+    return this.fail(`closing ${quote}`, line, column + text.length);
+  }
+
+  private flowNode(flow: Flow, path: Path, anchor?: string): unknown {
+    this.skipFlowSpaces(flow);
+    const anchorMatch = ANCHOR.exec(flow.text.slice(flow.pos));
+    if (anchorMatch) {
+      if (anchor !== undefined) {
+        this.fail("a single anchor", flow.line, flow.column + flow.pos);
+      }
+      anchor = anchorMatch[1];
+      flow.pos += anchorMatch[0].length;
+    }
+
+    const start = flow.pos;
+    const column = flow.column + start;
+    this.record(path, flow.line, column);
+    const first = flow.text.charAt(start);
+    if (first === "[") {
+      const items: unknown[] = [];
+      this.define(anchor, items);
+      flow.pos++;
+      while (!this.flowEnd(flow, "]", items.length === 0)) {
+        items.push(this.flowNode(flow, [...path, items.length]));
+      }
+      return items;
+    }
+    if (first === "{") {
+      const entries: Record<string, unknown> = {};
+      this.define(anchor, entries);
+      flow.pos++;
+      while (!this.flowEnd(flow, "}", Object.keys(entries).length === 0)) {
+        const keyColumn = flow.column + flow.pos;
+        const key = this.flowKey(flow);
+        if (Object.hasOwn(entries, key)) {
+          this.fail("unique key", flow.line, keyColumn, JSON.stringify(key));
+        }
+        this.skipFlowSpaces(flow);
+        this.expectFlow(flow, ":", "':'");
+        this.skipFlowSpaces(flow);
+        const next = flow.text.charAt(flow.pos);
+        defineOwn(
+          entries,
+          key,
+          next === "," || next === "}"
+            ? null
+            : this.flowNode(flow, [...path, key]),
+        );
+      }
+      return entries;
+    }
+    if (first === '"' || first === "'") {
+      const { value, end } = this.quoted(
+        flow.text,
+        start,
+        flow.line,
+        flow.column,
+      );
+      flow.pos = end;
+      return this.define(anchor, value);
+    }
+    if (first === "*") {
+      const end = this.flowPlainEnd(flow.text, start);
+      flow.pos = end;
+      return this.alias(flow.text.slice(start, end), flow.line, column, anchor);
+    }
+
+    const end = this.flowPlainEnd(flow.text, start);
+    const text = flow.text.slice(start, end).trim();
+    if (text === "" || /^[!@`]/.test(text)) {
+      this.fail(
+        "value",
+        flow.line,
+        column,
+        JSON.stringify(flow.text.charAt(start) || "end of line"),
+      );
+    }
+    flow.pos = end;
+    return this.define(anchor, resolvePlain(text));
+  }
+
+  private flowKey(flow: Flow): string {
+    const start = flow.pos;
+    const first = flow.text.charAt(start);
+    if (first === '"' || first === "'") {
+      const { value, end } = this.quoted(
+        flow.text,
+        start,
+        flow.line,
+        flow.column,
+      );
+      flow.pos = end;
+      return value;
+    }
+    flow.pos = this.flowPlainEnd(flow.text, start);
+    const key = flow.text.slice(start, flow.pos).trim();
+    if (key === "") {
+      this.fail("key", flow.line, flow.column + start);
+    }
+    return key;
+  }
+
+  /**
+   * Plain scalars in flow collections end at a flow indicator,
+   * or at a colon followed by a space.
+   */
+  private flowPlainEnd(text: string, start: number) {
+    let end = start;
+    while (
+      end < text.length &&
+      !/[,[\]{}]/.test(text.charAt(end)) &&
+      !(
+        text.charAt(end) === ":" &&
+        /^(?:[\s,[\]{}]|$)/.test(text.charAt(end + 1))
+      )
+    ) {
+      end++;
+    }
+    return end;
+  }
+
+  /**
+   * Consumes the separator after an item, telling whether the collection
+   * is complete.
+   */
+  private flowEnd(flow: Flow, closing: string, first: boolean) {
+    this.skipFlowSpaces(flow);
+    if (flow.text.charAt(flow.pos) === closing) {
+      flow.pos++;
+      return true;
+    }
+    if (!first) {
+      this.expectFlow(flow, ",", `',' or '${closing}'`);
+      this.skipFlowSpaces(flow);
+      if (flow.text.charAt(flow.pos) === closing) {
+        flow.pos++;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private expectFlow(flow: Flow, ch: string, expected: string) {
+    if (flow.text.charAt(flow.pos) !== ch) {
+      this.fail(
+        expected,
+        flow.line,
+        flow.column + flow.pos,
+        flow.pos < flow.text.length
+          ? JSON.stringify(flow.text.charAt(flow.pos))
+          : "end of line",
+      );
+    }
+    flow.pos++;
+  }
+
+  private skipFlowSpaces(flow: Flow) {
+    while (/\s/.test(flow.text.charAt(flow.pos))) {
+      flow.pos++;
+    }
+  }
+
+  private define<T>(anchor: string | undefined, value: T): T {
+    if (anchor !== undefined) {
+      this.anchors.set(anchor, value);
+    }
+    return value;
+  }
+
+  private record(path: Path, line: Line, column: number) {
+    this.positions.set(jsonPointer(path), { line: line.no, column });
+  }
+
+  private fail(
+    expected: string,
+    line: Line,
+    column: number,
+    received?: string,
+  ): never {
+    throw new SourceSyntaxError({
+      reason: `invalid YAML, ${expected} expected at line ${line.no}, column ${column}`,
+      path: [],
+      code: "invalid_yaml",
+      expected,
+      received,
+      params: { line: line.no, column },
+    });
+  }
+}
+
+/**
+ * Parses a YAML document into plain values, keeping the position of every
+ * value so that validation errors can point at their line and column.
+ * Aliases refer to the same value as their anchor, so a node that contains
+ * its own alias is reported as a circular reference by the parsers.
+ *
+ * Supports block and single-line flow mappings and sequences, plain, quoted
+ * and block scalars resolved with the YAML 1.2 core schema, and anchors.
+ * Throws a `ValidationError` with the code `invalid_yaml` otherwise.
+ *
+ * @example
+ * const doc = parseYamlSource(fs.readFileSync("config.yaml", "utf8"));
+ * runParser(configParser, { input: doc.value, ...withSourceLocations(doc) });
+ */
+export const parseYamlSource = (
+  text: string,
+  format: FormatOptions = {},
+): SourceDocument => {
+  try {
+    const reader = new YamlReader(text);
+    return sourceDocument(text, reader.read(), reader.positions);
+  } catch (e) {
+    if (e instanceof SourceSyntaxError) {
+      throw validationError([e.info], format);
+    }
+    throw e;
+  }
+};
@@ -0,0 +1,12 @@
+import { defineProject } from "vitest/config";
+
+export default defineProject({
+  test: {
+    name: "mu-parser",
+    typecheck: {
+      enabled: true,
+      include: ["__tests__/**/*.spec-d.ts"],
+      tsconfig: "./tsconfig.test.json",
+    },
+  },
+});